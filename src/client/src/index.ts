@@ -1,4 +1,20 @@
-// Placeholder client-side TypeScript - will be implemented in later phases
+import { subscribeToJob } from './realtime';
+import {
+  ColumnMapping,
+  FilePreview,
+  JobFinishedEvent,
+  JobPage,
+  JobSummary,
+  MatchBreakdown,
+  PriceChange,
+  PriceComparison,
+  ReplacementMode,
+  ScrapingResult,
+  SubscribeResponse,
+  TaskProgress,
+  UploadPreview,
+  UploadReport,
+} from './types';
 
 console.log('Price Survey Application - Client initialized');
 
@@ -9,6 +25,20 @@ const startScrapeButton = document.getElementById('start-scrape') as HTMLButtonE
 
 let storesFile: File | null = null;
 let productsFile: File | null = null;
+let currentJobId: string | null = null;
+/** Whether the current job's progress arrives as live events rather than by polling */
+let liveProgress = false;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+// How often job status is polled when live progress events are unavailable
+const POLL_INTERVAL_MS = 2000;
+
+type UploadKind = 'stores' | 'products';
+
+// Column mapping state for each selected file
+const previews: Record<UploadKind, FilePreview | null> = { stores: null, products: null };
+const mappings: Record<UploadKind, ColumnMapping> = { stores: {}, products: {} };
+const sheets: Record<UploadKind, string | undefined> = { stores: undefined, products: undefined };
 
 storesFileInput?.addEventListener('change', (e) => {
   const target = e.target as HTMLInputElement;
@@ -18,7 +48,8 @@ storesFileInput?.addEventListener('change', (e) => {
     if (fileNameSpan) {
       fileNameSpan.textContent = storesFile.name;
     }
-    checkFilesReady();
+    sheets.stores = undefined;
+    loadPreview('stores', storesFile);
   }
 });
 
@@ -30,22 +61,176 @@ productsFileInput?.addEventListener('change', (e) => {
     if (fileNameSpan) {
       fileNameSpan.textContent = productsFile.name;
     }
-    checkFilesReady();
+    sheets.products = undefined;
+    loadPreview('products', productsFile);
   }
 });
 
 function checkFilesReady() {
-  if (storesFile && productsFile) {
-    startScrapeButton.disabled = false;
+  startScrapeButton.disabled = !(storesFile && productsFile && isMappingComplete('stores') && isMappingComplete('products'));
+}
+
+/**
+ * Summarize an upload report under the upload button, or hide it when there is nothing to report
+ */
+function showUploadReport(report: UploadReport | null): void {
+  const container = document.getElementById('upload-report');
+  const summary = document.getElementById('upload-report-summary');
+  const downloadButton = document.getElementById('download-upload-report');
+  if (!container || !summary || !downloadButton) return;
+
+  if (!report || (report.errors.length === 0 && report.warnings.length === 0)) {
+    container.style.display = 'none';
+    return;
   }
+
+  const skipped = report.skippedRows.length > 0 ? `${report.skippedRows.length} rows skipped, ` : '';
+  summary.textContent = `Accepted ${report.accepted.stores} stores and ${report.accepted.products} products; `
+    + `${skipped}${report.errors.length} errors, ${report.warnings.length} warnings.`;
+  downloadButton.onclick = () => downloadUploadReport(report);
+  container.style.display = 'block';
+}
+
+/**
+ * Download an upload report's errors and warnings as CSV
+ */
+function downloadUploadReport(report: UploadReport): void {
+  const quote = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+  const lines = [
+    ['File', 'Row', 'Severity', 'Field', 'Message'].map(quote).join(','),
+    ...[...report.errors, ...report.warnings].map((issue) =>
+      [issue.file, issue.row || '', issue.severity, issue.field, issue.message].map(quote).join(',')
+    ),
+  ];
+
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'upload-report.csv';
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Check that every field of a previewed file has a column
+ */
+function isMappingComplete(kind: UploadKind): boolean {
+  const preview = previews[kind];
+  return !!preview && preview.fields.every((field) => !field.required || !!mappings[kind][field.key]);
+}
+
+/**
+ * Preview a selected file and show its column mapping
+ */
+async function loadPreview(kind: UploadKind, file: File): Promise<void> {
+  previews[kind] = null;
+  checkFilesReady();
+
+  const formData = new FormData();
+  formData.append(`${kind}File`, file);
+  if (sheets[kind]) {
+    formData.append(`${kind}Sheet`, sheets[kind]!);
+  }
+
+  try {
+    const response = await fetch('/api/upload/preview', { method: 'POST', body: formData });
+    const data = await response.json();
+
+    if (!response.ok) {
+      showMessage(data.message || `Failed to read ${kind} file`, 'error');
+      renderMapping(kind);
+      return;
+    }
+
+    const preview = (data as UploadPreview)[kind]!;
+    previews[kind] = preview;
+    mappings[kind] = { ...preview.suggestedMapping };
+    sheets[kind] = preview.sheet;
+    renderMapping(kind);
+  } catch (error) {
+    console.error('Preview error:', error);
+    showMessage(`Network error: Failed to read ${kind} file`, 'error');
+  }
+
+  checkFilesReady();
+}
+
+/**
+ * Render a file's column mapping: a column picker per field, then the first rows
+ */
+function renderMapping(kind: UploadKind): void {
+  const container = document.getElementById(`${kind}-mapping`);
+  if (!container) return;
+
+  const preview = previews[kind];
+  if (!preview) {
+    container.style.display = 'none';
+    container.innerHTML = '';
+    return;
+  }
+
+  const options = (selected?: string) => [
+    '<option value="">Choose a column</option>',
+    ...preview.headers.map((header) =>
+      `<option value="${escapeHtml(header)}"${header === selected ? ' selected' : ''}>${escapeHtml(header)}</option>`
+    ),
+  ].join('');
+
+  const sheetPicker = preview.sheets && preview.sheets.length > 1
+    ? `<label>Sheet</label><select data-sheet>${preview.sheets.map((sheet) =>
+      `<option value="${escapeHtml(sheet)}"${sheet === preview.sheet ? ' selected' : ''}>${escapeHtml(sheet)}</option>`
+    ).join('')}</select>`
+    : '';
+
+  const fields = preview.fields.map((field) => `
+    <label>${escapeHtml(field.header)}</label>
+    <select data-field="${escapeHtml(field.key)}">${options(mappings[kind][field.key])}</select>
+  `).join('');
+
+  const sampleHeaders = preview.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('');
+  const sampleRows = preview.sampleRows.map((row) =>
+    `<tr>${preview.headers.map((_, i) => `<td>${escapeHtml(row[i] || '')}</td>`).join('')}</tr>`
+  ).join('');
+
+  container.innerHTML = `
+    <h3>${kind === 'stores' ? 'Stores' : 'Products'} columns (${preview.totalRows} rows)</h3>
+    <div class="mapping-fields">${sheetPicker}${fields}</div>
+    <div class="results-table-container">
+      <table class="sample-table"><thead><tr>${sampleHeaders}</tr></thead><tbody>${sampleRows}</tbody></table>
+    </div>
+  `;
+  container.style.display = 'block';
+
+  container.querySelectorAll<HTMLSelectElement>('select[data-field]').forEach((select) => {
+    select.addEventListener('change', () => {
+      const field = select.dataset.field!;
+      if (select.value) {
+        mappings[kind][field] = select.value;
+      } else {
+        delete mappings[kind][field];
+      }
+      checkFilesReady();
+    });
+  });
+
+  container.querySelector<HTMLSelectElement>('select[data-sheet]')?.addEventListener('change', (e) => {
+    const file = kind === 'stores' ? storesFile : productsFile;
+    sheets[kind] = (e.target as HTMLSelectElement).value;
+    if (file) {
+      loadPreview(kind, file);
+    }
+  });
 }
 
 startScrapeButton?.addEventListener('click', async () => {
   if (!storesFile || !productsFile) {
-    showMessage('Please select both CSV files', 'error');
+    showMessage('Please select both files', 'error');
     return;
   }
 
+  showUploadReport(null);
+
   try {
     // Disable button during upload
     startScrapeButton.disabled = true;
@@ -55,6 +240,18 @@ startScrapeButton?.addEventListener('click', async () => {
     const formData = new FormData();
     formData.append('storesFile', storesFile);
     formData.append('productsFile', productsFile);
+    (['stores', 'products'] as const).forEach((kind) => {
+      formData.append(`${kind}Mapping`, JSON.stringify(mappings[kind]));
+      if (sheets[kind]) {
+        formData.append(`${kind}Sheet`, sheets[kind]!);
+      }
+    });
+    const lenient = (document.getElementById('lenient-upload') as HTMLInputElement | null)?.checked;
+    formData.append('mode', lenient ? 'lenient' : 'strict');
+    const duplicates = (document.getElementById('duplicate-policy') as HTMLSelectElement | null)?.value;
+    if (duplicates) {
+      formData.append('duplicates', duplicates);
+    }
 
     // Upload files
     const response = await fetch('/api/upload', {
@@ -63,6 +260,7 @@ startScrapeButton?.addEventListener('click', async () => {
     });
 
     const data = await response.json();
+    showUploadReport(data.report || null);
 
     if (!response.ok) {
       // Handle validation errors
@@ -94,6 +292,7 @@ startScrapeButton?.addEventListener('click', async () => {
     // Automatically start scraping
     startScrapeButton.textContent = 'Scraping...';
     await startScraping(data.jobId);
+    await loadJobHistory();
   } catch (error) {
     console.error('Upload error:', error);
     showMessage('Network error: Failed to upload files', 'error');
@@ -153,7 +352,15 @@ function showMessage(message: string, type: 'success' | 'error') {
  * Start scraping for a job
  */
 async function startScraping(jobId: string): Promise<void> {
+  currentJobId = jobId;
+  setPausedControls(false);
+  setRetryVisible(false);
+  clearResults();
+
   try {
+    // Subscribe before starting so no progress events are missed
+    const subscription = await watchJob(jobId);
+
     const response = await fetch('/api/scrape', {
       method: 'POST',
       headers: {
@@ -170,11 +377,11 @@ async function startScraping(jobId: string): Promise<void> {
     }
 
     showMessage('Scraping started! Watch the progress below.', 'success');
-
-    // TODO: In Phase 7, connect to Socket.IO for real-time progress updates
-    // For now, poll for completion
     updateProgress(0, 'Scraping in progress...');
-    pollJobStatus(jobId);
+
+    if (!subscription.ok) {
+      pollJob(jobId);
+    }
   } catch (error) {
     console.error('Scraping error:', error);
     showMessage('Network error: Failed to start scraping', 'error');
@@ -182,44 +389,125 @@ async function startScraping(jobId: string): Promise<void> {
 }
 
 /**
- * Poll job status until complete (placeholder until Socket.IO in Phase 7)
+ * Subscribe to a job's live progress events. Callers poll instead when this fails.
  */
-async function pollJobStatus(jobId: string): Promise<void> {
-  const pollInterval = setInterval(async () => {
+async function watchJob(jobId: string): Promise<SubscribeResponse> {
+  stopPolling();
+
+  const subscription = await subscribeToJob(jobId, {
+    'task-started': (event) => {
+      updateProgress(event.progress.percent, formatProgress(event.progress));
+      setCurrentTask(`Searching for ${event.productName} at ${event.storeName}...`);
+    },
+    'task-completed': (event) => {
+      updateProgress(event.progress.percent, formatProgress(event.progress));
+      upsertResultRow(jobId, event.result);
+    },
+    'store-finished': (event) => {
+      setCurrentTask(`Finished ${event.storeName}`);
+    },
+    'job-status': (event) => {
+      setPausedControls(event.status === 'paused');
+      setCurrentTask(event.message);
+    },
+    'job-finished': (event) => handleJobFinished(event),
+  });
+
+  liveProgress = subscription.ok;
+  if (!subscription.ok) {
+    console.warn(`No live progress for job ${jobId}: ${subscription.error || 'subscription failed'}`);
+  }
+  return subscription;
+}
+
+/**
+ * Stop polling job status
+ */
+function stopPolling(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+/**
+ * Poll a job's status until it finishes, for when live progress events are unavailable
+ */
+function pollJob(jobId: string): void {
+  stopPolling();
+
+  pollTimer = setInterval(async () => {
+    if (currentJobId !== jobId) {
+      stopPolling();
+      return;
+    }
+
     try {
-      const response = await fetch(`/api/jobs/${jobId}`);
+      const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`);
       const data = await response.json();
 
       if (!response.ok) {
-        clearInterval(pollInterval);
-        showMessage('Failed to get job status', 'error');
+        stopPolling();
+        showMessage(data.message || 'Failed to get job status', 'error');
         return;
       }
 
-      console.log('Job status:', data);
-
-      // Update progress based on status
-      if (data.status === 'completed') {
-        clearInterval(pollInterval);
-        updateProgress(100, 'Scraping complete!');
-        showMessage('Scraping completed successfully!', 'success');
-
-        // Fetch and display results
-        await fetchAndDisplayResults(jobId);
-      } else if (data.status === 'failed') {
-        clearInterval(pollInterval);
-        updateProgress(0, 'Scraping failed');
-        const errorMsg = data.error ? `Scraping failed: ${data.error}` : 'Scraping failed. Please try again.';
-        showMessage(errorMsg, 'error');
-        console.error('Scraping error details:', data.error);
-      } else if (data.status === 'processing') {
-        // Show processing status
-        updateProgress(50, 'Scraping stores and products...');
+      if (data.status === 'completed' || data.status === 'failed' || data.status === 'cancelled') {
+        stopPolling();
+        await handleJobFinished({ jobId, status: data.status, resultsCount: data.resultsCount, error: data.error });
+        return;
       }
+
+      setPausedControls(data.status === 'paused');
+      updateProgress(data.progress.percent, formatProgress(data.progress));
     } catch (error) {
       console.error('Error polling job status:', error);
     }
-  }, 2000); // Poll every 2 seconds
+  }, POLL_INTERVAL_MS);
+}
+
+/**
+ * Handle the end of a scrape run (completed, failed or cancelled)
+ */
+async function handleJobFinished(event: JobFinishedEvent): Promise<void> {
+  setCurrentTask('');
+
+  if (event.status === 'completed') {
+    updateProgress(100, 'Scraping complete!');
+    showMessage('Scraping completed successfully!', 'success');
+  } else if (event.status === 'failed') {
+    updateProgress(0, 'Scraping failed');
+    const errorMsg = event.error ? `Scraping failed: ${event.error}` : 'Scraping failed. Please try again.';
+    showMessage(errorMsg, 'error');
+    console.error('Scraping error details:', event.error);
+    setRetryVisible(true);
+  } else if (event.status === 'cancelled') {
+    updateProgress(0, 'Scraping cancelled');
+    showMessage('Scraping cancelled. Showing results collected so far.', 'success');
+  }
+
+  // Reload the full, ordered result set
+  await fetchAndDisplayResults(event.jobId);
+  await loadJobHistory();
+}
+
+/**
+ * Format task progress for the progress text
+ */
+function formatProgress(progress: TaskProgress): string {
+  const failed = progress.failedTasks > 0 ? ` (${progress.failedTasks} failed)` : '';
+  const eta = progress.etaMs !== undefined ? `, about ${formatDuration(progress.etaMs)} left` : '';
+  return `Processing ${progress.completedTasks} of ${progress.totalTasks} items${failed}${eta}...`;
+}
+
+/**
+ * Format a duration in milliseconds as e.g. "3m 20s"
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
 }
 
 /**
@@ -227,7 +515,7 @@ async function pollJobStatus(jobId: string): Promise<void> {
  */
 async function fetchAndDisplayResults(jobId: string): Promise<void> {
   try {
-    const response = await fetch(`/api/results/${jobId}`);
+    const response = await fetch(`/api/results/${encodeURIComponent(jobId)}`);
     const data = await response.json();
 
     if (!response.ok) {
@@ -235,7 +523,9 @@ async function fetchAndDisplayResults(jobId: string): Promise<void> {
       return;
     }
 
-    displayResults(data.results || []);
+    displayResults(jobId, data.results || []);
+    await fetchAndDisplayPriceChanges(jobId);
+    await fetchAndDisplayComparison(jobId);
   } catch (error) {
     console.error('Error fetching results:', error);
     showMessage('Network error: Failed to fetch results', 'error');
@@ -243,54 +533,323 @@ async function fetchAndDisplayResults(jobId: string): Promise<void> {
 }
 
 /**
- * Display results in table
+ * Fetch price changes since the previous run and show them in the results table
  */
-function displayResults(results: any[]): void {
-  const resultsSection = document.getElementById('results-section');
-  const tbody = document.getElementById('results-tbody');
+async function fetchAndDisplayPriceChanges(jobId: string): Promise<void> {
+  try {
+    const response = await fetch(`/api/results/${encodeURIComponent(jobId)}/changes`);
+    const data = await response.json();
 
-  if (!resultsSection || !tbody) return;
+    if (!response.ok) {
+      console.error('Failed to fetch price changes:', data.message);
+      return;
+    }
 
-  // Clear existing results
-  tbody.innerHTML = '';
+    (data.changes as PriceChange[]).forEach(displayPriceChange);
+  } catch (error) {
+    console.error('Error fetching price changes:', error);
+  }
+}
 
-  // Populate table
-  results.forEach((result) => {
-    const row = document.createElement('tr');
+/**
+ * Show one price change in its results row, e.g. "▲ $0.20 (+5%)"
+ */
+function displayPriceChange(change: PriceChange): void {
+  const key = `${change.storeName}|${change.productId}`;
+  const row = Array.from(document.querySelectorAll<HTMLTableRowElement>('#results-tbody tr'))
+    .find((tr) => tr.dataset.key === key);
+  const cell = row?.querySelector<HTMLTableCellElement>('.price-change');
+  if (!cell) return;
+
+  const since = new Date(change.previousRecordedAt).toLocaleDateString();
+  cell.title = change.previousPrice !== undefined
+    ? `$${change.previousPrice.toFixed(2)} on ${since}`
+    : `Not found on ${since}`;
 
-    // Add warning class for non-exact matches
-    if (!result.isExactMatch) {
+  if (change.change === undefined) {
+    cell.textContent = change.price === undefined ? 'Not found' : 'Newly found';
+    return;
+  }
+
+  if (change.change === 0) {
+    cell.textContent = 'No change';
+    return;
+  }
+
+  const arrow = change.change > 0 ? '▲' : '▼';
+  const percent = change.changePercent !== undefined
+    ? ` (${change.changePercent > 0 ? '+' : ''}${change.changePercent.toFixed(1)}%)`
+    : '';
+  cell.textContent = `${arrow} $${Math.abs(change.change).toFixed(2)}${percent}`;
+  cell.classList.add(change.change > 0 ? 'price-up' : 'price-down');
+}
+
+/**
+ * Fetch the store comparison for a job and show it
+ */
+async function fetchAndDisplayComparison(jobId: string): Promise<void> {
+  const select = document.getElementById('comparison-replacements') as HTMLSelectElement | null;
+  const mode = (select?.value || 'flag') as ReplacementMode;
+
+  try {
+    const response = await fetch(`/api/results/${encodeURIComponent(jobId)}/comparison?replacements=${mode}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('Failed to fetch comparison:', data.message);
+      return;
+    }
+
+    displayComparison(data as PriceComparison);
+  } catch (error) {
+    console.error('Error fetching comparison:', error);
+  }
+}
+
+/**
+ * Format an optional price, e.g. "$3.50"
+ */
+function formatPrice(price?: number): string {
+  return price !== undefined ? `$${price.toFixed(2)}` : '-';
+}
+
+/**
+ * Render the product × store matrix, highlighting the cheapest store and basket
+ */
+function displayComparison(comparison: PriceComparison): void {
+  const section = document.getElementById('comparison-section');
+  const thead = document.getElementById('comparison-thead');
+  const tbody = document.getElementById('comparison-tbody');
+  const tfoot = document.getElementById('comparison-tfoot');
+  const note = document.getElementById('comparison-note');
+  if (!section || !thead || !tbody || !tfoot) return;
+
+  const storeHeaders = comparison.stores.map((store) => `<th>${escapeHtml(store)}</th>`).join('');
+  thead.innerHTML = `<tr><th>Product</th>${storeHeaders}<th>Min</th><th>Median</th><th>Max</th></tr>`;
+
+  tbody.innerHTML = '';
+  comparison.products.forEach((product) => {
+    const row = document.createElement('tr');
+    if (product.replacementOnly) {
       row.classList.add('replacement-row');
     }
 
+    const cells = comparison.stores.map((store) => {
+      const cell = product.cells[store];
+      if (!cell) {
+        return '<td>-</td>';
+      }
+
+      const classes = [cell.isCheapest ? 'cheapest' : '', cell.isExactMatch ? '' : 'replacement-cell'].filter(Boolean);
+      const title = cell.errorMessage || cell.foundProductName || '';
+      const text = cell.price !== undefined ? formatPrice(cell.price) : 'N/A';
+      return `<td class="${classes.join(' ')}" title="${escapeHtml(title)}">${escapeHtml(text)}</td>`;
+    });
+
+    const flag = product.replacementOnly ? '<div class="promo-details">Replacements only</div>' : '';
     row.innerHTML = `
-      <td>${result.productId || 'N/A'}</td>
-      <td>${result.productName || 'N/A'}</td>
-      <td>${result.brand || 'N/A'}</td>
-      <td>${result.storeName || 'N/A'}</td>
-      <td>${result.price ? `$${result.price.toFixed(2)} ${result.currency || 'NZD'}` : 'N/A'}</td>
-      <td>${result.foundProductName || result.productName}</td>
-      <td>${result.replacementDescription || (result.isExactMatch ? 'Exact match' : 'N/A')}</td>
+      <td>${escapeHtml(product.productName)} <small>(${escapeHtml(product.productId)})</small>${flag}</td>
+      ${cells.join('')}
+      <td>${formatPrice(product.minPrice)}</td>
+      <td>${formatPrice(product.medianPrice)}</td>
+      <td>${formatPrice(product.maxPrice)}</td>
     `;
-
     tbody.appendChild(row);
   });
 
-  // Show results section
-  resultsSection.style.display = 'block';
+  const totals = comparison.baskets.map((basket) => {
+    const missing = basket.missingProducts > 0 ? ` (${basket.missingProducts} missing)` : '';
+    return `<td class="${basket.isCheapest ? 'cheapest' : ''}">${formatPrice(basket.total)}${escapeHtml(missing)}</td>`;
+  });
+  const comparable = comparison.baskets.map((basket) =>
+    `<td class="${basket.isCheapest ? 'cheapest' : ''}">${formatPrice(basket.comparableTotal)}</td>`
+  );
+  tfoot.innerHTML = `
+    <tr><td>Basket total</td>${totals.join('')}<td colspan="3"></td></tr>
+    <tr><td>Common basket (${comparison.comparableProducts} products)</td>${comparable.join('')}<td colspan="3"></td></tr>
+  `;
 
-  // Setup export button
-  const exportButton = document.getElementById('export-csv');
-  if (exportButton) {
-    exportButton.onclick = () => {
-      const jobId = results[0]?.jobId || '';
-      window.location.href = `/api/results/${jobId}/csv`;
-    };
+  if (note) {
+    const excluded = comparison.excludedProductIds.length;
+    note.textContent = excluded > 0
+      ? `${excluded} product${excluded === 1 ? '' : 's'} left out because only replacements were found.`
+      : '';
   }
+
+  section.style.display = 'block';
+}
+
+/**
+ * Escape text for insertion into HTML (scraped names come from third-party sites)
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Build a results table row
+ */
+function renderResultRow(result: ScrapingResult): HTMLTableRowElement {
+  const row = document.createElement('tr');
+  row.dataset.key = `${result.storeName}|${result.productId}`;
+
+  // Add warning class for non-exact matches
+  if (!result.isExactMatch) {
+    row.classList.add('replacement-row');
+  }
+
+  const price = result.price !== undefined ? `$${result.price.toFixed(2)} ${result.currency || 'NZD'}` : 'N/A';
+  const unitPrice = formatUnitPrice(result);
+  const info = result.errorMessage
+    || result.replacementDescription
+    || (result.isExactMatch ? 'Exact match' : 'N/A');
+
+  row.innerHTML = `
+    <td>${escapeHtml(result.productId || 'N/A')}</td>
+    <td>${escapeHtml(result.productName || 'N/A')}</td>
+    <td>${escapeHtml(result.brand || 'N/A')}</td>
+    <td>${escapeHtml(result.storeName || 'N/A')}</td>
+    <td>${escapeHtml(price)}${renderPromoDetails(result)}</td>
+    <td>${escapeHtml(unitPrice)}</td>
+    <td class="price-change">-</td>
+    <td>${escapeHtml(result.foundProductName || result.productName)}</td>
+    <td>${renderMatchScore(result)}</td>
+    <td>${escapeHtml(info)}</td>
+  `;
+
+  return row;
 }
 
 /**
- * Update progress bar (placeholder for Phase 7 Socket.IO integration)
+ * Show the match score with its components underneath, e.g. "72%" over "brand 100% · size 0% · name 67%"
+ */
+function renderMatchScore(result: ScrapingResult): string {
+  if (result.matchScore === undefined) {
+    return '-';
+  }
+
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const breakdown = result.matchBreakdown || {};
+  const parts = (Object.keys(breakdown) as (keyof MatchBreakdown)[])
+    .filter((key) => breakdown[key] !== undefined)
+    .map((key) => `${key} ${percent(breakdown[key]!)}`);
+
+  const details = parts.length > 0 ? `<div class="match-breakdown">${escapeHtml(parts.join(' · '))}</div>` : '';
+  return `${percent(result.matchScore)}${details}`;
+}
+
+/**
+ * Describe promotional pricing under the price, e.g. "Was $5.20 · Club $3.99 · Ends 2025-03-12"
+ */
+function renderPromoDetails(result: ScrapingResult): string {
+  const details: string[] = [];
+
+  if (result.promoPrice !== undefined && result.regularPrice !== undefined) {
+    details.push(`Was $${result.regularPrice.toFixed(2)}`);
+  }
+  if (result.memberPrice !== undefined) {
+    details.push(`Club $${result.memberPrice.toFixed(2)}`);
+  }
+  if (result.multiBuy) {
+    details.push(`${result.multiBuy.quantity} for $${result.multiBuy.price.toFixed(2)}`);
+  }
+  if (result.promoEndDate) {
+    details.push(`Ends ${result.promoEndDate}`);
+  }
+
+  return details.length > 0 ? `<div class="promo-details">${escapeHtml(details.join(' · '))}</div>` : '';
+}
+
+/**
+ * Format the normalised unit price with its pack size, e.g. "$5.05 / 1L (6 x 330ml)"
+ */
+function formatUnitPrice(result: ScrapingResult): string {
+  if (result.unitPrice === undefined) {
+    return 'N/A';
+  }
+
+  const per = result.unit === 'each' ? 'each' : `1${result.unit}`;
+  const pack = result.packSize ? ` (${result.packSize})` : '';
+  return `$${result.unitPrice.toFixed(2)} / ${per}${pack}`;
+}
+
+/**
+ * Empty the results table
+ */
+function clearResults(): void {
+  const tbody = document.getElementById('results-tbody');
+  if (tbody) {
+    tbody.innerHTML = '';
+  }
+
+  const comparisonSection = document.getElementById('comparison-section');
+  if (comparisonSection) {
+    comparisonSection.style.display = 'none';
+  }
+}
+
+/**
+ * Add a live result to the table, replacing an earlier attempt at the same task
+ */
+function upsertResultRow(jobId: string, result: ScrapingResult): void {
+  const tbody = document.getElementById('results-tbody');
+  if (!tbody) return;
+
+  const row = renderResultRow(result);
+  const existing = Array.from(tbody.querySelectorAll('tr')).find((tr) => tr.dataset.key === row.dataset.key);
+
+  if (existing) {
+    existing.replaceWith(row);
+  } else {
+    tbody.appendChild(row);
+  }
+
+  showResultsSection(jobId);
+}
+
+/**
+ * Display results in table
+ */
+function displayResults(jobId: string, results: ScrapingResult[]): void {
+  const tbody = document.getElementById('results-tbody');
+  if (!tbody) return;
+
+  // Clear existing results
+  tbody.innerHTML = '';
+
+  // Populate table
+  results.forEach((result) => tbody.appendChild(renderResultRow(result)));
+
+  showResultsSection(jobId);
+}
+
+/**
+ * Show the results section and point the export button at the job
+ */
+function showResultsSection(jobId: string): void {
+  const resultsSection = document.getElementById('results-section');
+  if (resultsSection) {
+    resultsSection.style.display = 'block';
+  }
+
+  // Setup export buttons
+  (['csv', 'xlsx'] as const).forEach((format) => {
+    const exportButton = document.getElementById(`export-${format}`);
+    if (exportButton) {
+      exportButton.onclick = () => {
+        window.location.href = `/api/results/${encodeURIComponent(jobId)}/export?format=${format}`;
+      };
+    }
+  });
+}
+
+/**
+ * Update progress bar
  */
 function updateProgress(progress: number, message: string): void {
   const progressFill = document.getElementById('progress-fill') as HTMLDivElement;
@@ -304,3 +863,244 @@ function updateProgress(progress: number, message: string): void {
     progressText.textContent = message;
   }
 }
+
+/**
+ * Show the task currently being worked on
+ */
+function setCurrentTask(message: string): void {
+  const currentTask = document.getElementById('current-task');
+  if (currentTask) {
+    currentTask.textContent = message;
+  }
+}
+
+/**
+ * Toggle the pause/resume buttons
+ */
+function setPausedControls(paused: boolean): void {
+  const pauseButton = document.getElementById('pause-job') as HTMLButtonElement | null;
+  const resumeButton = document.getElementById('resume-job') as HTMLButtonElement | null;
+
+  if (pauseButton) {
+    pauseButton.style.display = paused ? 'none' : 'inline-block';
+  }
+  if (resumeButton) {
+    resumeButton.style.display = paused ? 'inline-block' : 'none';
+  }
+}
+
+/**
+ * Show or hide the retry button
+ */
+function setRetryVisible(visible: boolean): void {
+  const retryButton = document.getElementById('retry-job') as HTMLButtonElement | null;
+  if (retryButton) {
+    retryButton.style.display = visible ? 'inline-block' : 'none';
+  }
+}
+
+/**
+ * Send a control action (pause, resume, cancel, retry) for the current job
+ */
+async function controlJob(action: 'pause' | 'resume' | 'cancel' | 'retry'): Promise<void> {
+  if (!currentJobId) {
+    return;
+  }
+
+  try {
+    const response = await fetch(`/api/jobs/${encodeURIComponent(currentJobId)}/${action}`, {
+      method: 'POST',
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      showMessage(data.message || `Failed to ${action} job`, 'error');
+      return;
+    }
+
+    if (action === 'pause') {
+      setPausedControls(true);
+    } else if (action === 'resume') {
+      setPausedControls(false);
+    } else if (action === 'retry') {
+      // Still subscribed to the job room, progress events resume on their own
+      setRetryVisible(false);
+      updateProgress(0, 'Retrying failed tasks...');
+      if (!liveProgress) {
+        pollJob(currentJobId);
+      }
+    }
+  } catch (error) {
+    console.error(`Error trying to ${action} job:`, error);
+    showMessage(`Network error: Failed to ${action} job`, 'error');
+  }
+}
+
+document.getElementById('pause-job')?.addEventListener('click', () => controlJob('pause'));
+document.getElementById('resume-job')?.addEventListener('click', () => controlJob('resume'));
+document.getElementById('retry-job')?.addEventListener('click', () => controlJob('retry'));
+document.getElementById('cancel-job')?.addEventListener('click', () => {
+  if (confirm('Cancel this survey? Results collected so far will be kept.')) {
+    controlJob('cancel');
+  }
+});
+
+// Job history state
+let historyPage = 1;
+
+/**
+ * Read the history filters as API query parameters
+ */
+function getHistoryQuery(): URLSearchParams {
+  const params = new URLSearchParams({ page: String(historyPage) });
+  const filters: Record<string, string> = {
+    status: (document.getElementById('history-status') as HTMLSelectElement | null)?.value || '',
+    store: (document.getElementById('history-store') as HTMLInputElement | null)?.value.trim() || '',
+    from: (document.getElementById('history-from') as HTMLInputElement | null)?.value || '',
+    to: (document.getElementById('history-to') as HTMLInputElement | null)?.value || '',
+  };
+
+  Object.entries(filters)
+    .filter(([, value]) => value)
+    .forEach(([key, value]) => params.set(key, value));
+
+  return params;
+}
+
+/**
+ * Fetch and display the job history
+ */
+async function loadJobHistory(): Promise<void> {
+  try {
+    const response = await fetch(`/api/jobs?${getHistoryQuery()}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      showMessage(data.message || 'Failed to load survey history', 'error');
+      return;
+    }
+
+    displayJobHistory(data as JobPage);
+  } catch (error) {
+    console.error('Error loading job history:', error);
+    showMessage('Network error: Failed to load survey history', 'error');
+  }
+}
+
+/**
+ * Build a job history table row
+ */
+function renderJobRow(job: JobSummary): HTMLTableRowElement {
+  const row = document.createElement('tr');
+  const running = job.status === 'processing' || job.status === 'paused';
+  const canOpen = running || ['completed', 'cancelled', 'failed'].includes(job.status);
+  const results = running
+    ? `${job.progress.completedTasks} of ${job.progress.totalTasks}`
+    : String(job.resultsCount);
+
+  row.innerHTML = `
+    <td>${escapeHtml(new Date(job.createdAt).toLocaleString())}</td>
+    <td><span class="status-badge status-${escapeHtml(job.status)}">${escapeHtml(job.status)}</span></td>
+    <td title="${escapeHtml(job.storeNames.join(', '))}">${job.stores}</td>
+    <td>${job.products}</td>
+    <td>${escapeHtml(results)}</td>
+    <td>${job.exactMatches} / ${job.replacements} / ${job.failedTasks}</td>
+    <td></td>
+  `;
+
+  if (canOpen) {
+    const openButton = document.createElement('button');
+    openButton.className = 'btn btn-secondary';
+    openButton.textContent = running ? 'Watch' : 'Open';
+    openButton.addEventListener('click', () => openJob(job));
+    row.lastElementChild?.appendChild(openButton);
+  }
+
+  return row;
+}
+
+/**
+ * Display a page of job history
+ */
+function displayJobHistory(data: JobPage): void {
+  const tbody = document.getElementById('history-tbody');
+  if (!tbody) return;
+
+  tbody.innerHTML = '';
+  data.jobs.forEach((job) => tbody.appendChild(renderJobRow(job)));
+
+  if (data.jobs.length === 0) {
+    tbody.innerHTML = '<tr><td colspan="7">No surveys found</td></tr>';
+  }
+
+  const pageInfo = document.getElementById('history-page-info');
+  if (pageInfo) {
+    pageInfo.textContent = `Page ${data.page} of ${Math.max(data.totalPages, 1)} (${data.total} surveys)`;
+  }
+
+  (document.getElementById('history-prev') as HTMLButtonElement).disabled = data.page <= 1;
+  (document.getElementById('history-next') as HTMLButtonElement).disabled = data.page >= data.totalPages;
+}
+
+/**
+ * Reopen a previous job: show its results, and follow its progress if it is still running
+ */
+async function openJob(job: JobSummary): Promise<void> {
+  currentJobId = job.jobId;
+  setRetryVisible(job.status === 'failed' || job.status === 'cancelled');
+  clearResults();
+
+  const progressSection = document.getElementById('progress-section');
+  const running = job.status === 'processing' || job.status === 'paused';
+
+  if (running) {
+    if (progressSection) {
+      progressSection.style.display = 'block';
+    }
+    setPausedControls(job.status === 'paused');
+    updateProgress(job.progress.percent, formatProgress(job.progress));
+
+    const subscription = await watchJob(job.jobId);
+    if (!subscription.ok) {
+      pollJob(job.jobId);
+    }
+    return;
+  }
+
+  if (progressSection) {
+    progressSection.style.display = job.status === 'completed' ? 'none' : 'block';
+  }
+  updateProgress(job.progress.percent, `Survey ${job.status}`);
+  setCurrentTask(job.error || '');
+
+  await fetchAndDisplayResults(job.jobId);
+  document.getElementById('results-section')?.scrollIntoView({ behavior: 'smooth' });
+}
+
+/**
+ * Reload history from the first page after a filter change
+ */
+function applyHistoryFilters(): void {
+  historyPage = 1;
+  loadJobHistory();
+}
+
+['history-status', 'history-store', 'history-from', 'history-to'].forEach((id) => {
+  document.getElementById(id)?.addEventListener('change', applyHistoryFilters);
+});
+document.getElementById('comparison-replacements')?.addEventListener('change', () => {
+  if (currentJobId) {
+    fetchAndDisplayComparison(currentJobId);
+  }
+});
+document.getElementById('refresh-history')?.addEventListener('click', () => loadJobHistory());
+document.getElementById('history-prev')?.addEventListener('click', () => {
+  historyPage = Math.max(1, historyPage - 1);
+  loadJobHistory();
+});
+document.getElementById('history-next')?.addEventListener('click', () => {
+  historyPage++;
+  loadJobHistory();
+});
+
+loadJobHistory();
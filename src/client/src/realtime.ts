@@ -0,0 +1,62 @@
+import { io, Socket } from 'socket.io-client';
+import { ClientToServerEvents, ServerToClientEvents, SubscribeResponse } from './types';
+
+type JobSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+type JobEventHandlers = Partial<ServerToClientEvents>;
+
+// How long to wait for the server to confirm a subscription
+const SUBSCRIBE_TIMEOUT_MS = 5000;
+
+let socket: JobSocket | null = null;
+let subscribedJobId: string | null = null;
+let activeHandlers: JobEventHandlers = {};
+
+/**
+ * Check that an event belongs to the job we are watching
+ */
+function isWatched(event: { jobId: string }): boolean {
+  return event.jobId === subscribedJobId;
+}
+
+/**
+ * Get the shared Socket.IO connection (connects on first use)
+ */
+function getSocket(): JobSocket {
+  if (!socket) {
+    socket = io();
+
+    // Only forward events for the job we are watching
+    socket.on('task-started', (event) => isWatched(event) && activeHandlers['task-started']?.(event));
+    socket.on('task-completed', (event) => isWatched(event) && activeHandlers['task-completed']?.(event));
+    socket.on('store-finished', (event) => isWatched(event) && activeHandlers['store-finished']?.(event));
+    socket.on('job-finished', (event) => isWatched(event) && activeHandlers['job-finished']?.(event));
+    socket.on('job-status', (event) => isWatched(event) && activeHandlers['job-status']?.(event));
+
+    // Rejoin the job room after a reconnect
+    socket.on('connect', () => {
+      if (subscribedJobId) {
+        socket?.emit('job:subscribe', subscribedJobId);
+      }
+    });
+  }
+
+  return socket;
+}
+
+/**
+ * Subscribe to a job's progress events, replacing any previous subscription.
+ * Resolves with ok: false if the server cannot be reached in time.
+ */
+export function subscribeToJob(jobId: string, handlers: JobEventHandlers): Promise<SubscribeResponse> {
+  const jobSocket = getSocket();
+
+  if (subscribedJobId && subscribedJobId !== jobId) {
+    jobSocket.emit('job:unsubscribe', subscribedJobId);
+  }
+
+  subscribedJobId = jobId;
+  activeHandlers = handlers;
+
+  return jobSocket.timeout(SUBSCRIBE_TIMEOUT_MS).emitWithAck('job:subscribe', jobId)
+    .catch((): SubscribeResponse => ({ ok: false, error: 'Live progress is unavailable' }));
+}
@@ -0,0 +1,39 @@
+import type { JobStatusValue, TaskProgress } from '../../shared/types';
+
+export type * from '../../shared/types';
+
+// Server responses with Date fields, which arrive as ISO strings
+
+export interface PriceChange {
+  productId: string;
+  storeName: string;
+  price?: number;
+  previousJobId: string;
+  previousRecordedAt: string;
+  previousPrice?: number;
+  change?: number;
+  changePercent?: number;
+}
+
+export interface JobSummary {
+  jobId: string;
+  status: JobStatusValue;
+  createdAt: string;
+  storeNames: string[];
+  stores: number;
+  products: number;
+  resultsCount: number;
+  exactMatches: number;
+  replacements: number;
+  failedTasks: number;
+  progress: TaskProgress;
+  error?: string;
+}
+
+export interface JobPage {
+  jobs: JobSummary[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
@@ -0,0 +1,53 @@
+import { StoreAdapter } from '../types';
+import { buildUrl, parseDollarsAndCents, parsePriceText, parseUnitPriceText } from './parsers';
+import { parsePromoTerms } from '../utils/promo';
+
+/**
+ * Create an adapter for a Foodstuffs store (New World, PAK'nSAVE).
+ * Both banners run the same online shop platform and markup.
+ */
+function createFoodstuffsAdapter(name: string, hostname: string): StoreAdapter {
+  return {
+    name,
+    hostnames: [hostname],
+    buildSearchUrl: (websiteUrl, query) => buildUrl(websiteUrl, '/shop/search', { q: query }),
+    resultListSelector: '[data-testid^="product-"][data-testid$="-000"]',
+    fieldSelectors: {
+      title: '[data-testid="product-title"]',
+      subtitle: '[data-testid="product-subtitle"]',
+      dollars: '[data-testid="price-dollars"]',
+      cents: '[data-testid="price-cents"]',
+      unitPrice: '[data-testid="non-promo-unit-price"], [data-testid="price-per"]',
+      unavailable: '[data-testid="product-unavailable"]',
+      // Club Deal / multi-buy badge and the price non-members pay during a Club Deal
+      promo: '[data-testid="product-promo"], [data-testid="promo-decal"]',
+      nonClubPrice: '[data-testid="non-club-price"]',
+      promoEnd: '[data-testid="promo-end-date"]',
+    },
+    parseProduct: (fields) => {
+      if (!fields.title) {
+        return null;
+      }
+
+      const shownPrice = parseDollarsAndCents(fields.dollars, fields.cents);
+      const nonClubPrice = parsePriceText(fields.nonClubPrice);
+      const terms = parsePromoTerms([fields.promo, fields.promoEnd].filter(Boolean).join('\n'));
+
+      // During a Club Deal the big price is the member price, with the everyday price beside it
+      const isClubDeal = nonClubPrice !== undefined || /club/i.test(fields.promo);
+
+      return {
+        ...terms,
+        // The subtitle holds the pack size ("2L", "500g"), keep it with the name
+        name: fields.subtitle ? `${fields.title} ${fields.subtitle}` : fields.title,
+        price: isClubDeal && nonClubPrice !== undefined ? nonClubPrice : shownPrice,
+        memberPrice: isClubDeal ? shownPrice : terms.memberPrice,
+        unitPrice: parseUnitPriceText(fields.unitPrice),
+        availability: fields.unavailable ? 'Out of Stock' : 'In Stock',
+      };
+    },
+  };
+}
+
+export const newWorldAdapter = createFoodstuffsAdapter('New World', 'newworld.co.nz');
+export const paknsaveAdapter = createFoodstuffsAdapter("PAK'nSAVE", 'paknsave.co.nz');
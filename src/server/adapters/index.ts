@@ -0,0 +1,60 @@
+import { Page } from 'playwright';
+import { AdapterProduct, StoreAdapter } from '../types';
+import { newWorldAdapter, paknsaveAdapter } from './foodstuffs.adapter';
+import { woolworthsAdapter } from './woolworths.adapter';
+import { logger } from '../utils/logger';
+
+// Registered adapters, checked in order
+const adapters: StoreAdapter[] = [newWorldAdapter, paknsaveAdapter, woolworthsAdapter];
+
+/**
+ * Register an additional store adapter
+ */
+export function registerAdapter(adapter: StoreAdapter): void {
+  adapters.push(adapter);
+  logger.info(`Store adapter registered: ${adapter.name} (${adapter.hostnames.join(', ')})`);
+}
+
+/**
+ * Get all registered adapters
+ */
+export function getRegisteredAdapters(): StoreAdapter[] {
+  return [...adapters];
+}
+
+/**
+ * Find the adapter for a store website by hostname (subdomains included)
+ */
+export function getAdapterForUrl(websiteUrl: string): StoreAdapter | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(websiteUrl).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+
+  return adapters.find((adapter) =>
+    adapter.hostnames.some((h) => hostname === h || hostname.endsWith(`.${h}`))
+  );
+}
+
+/**
+ * Read the product tiles on the current page using an adapter's selectors
+ */
+export async function extractAdapterProducts(page: Page, adapter: StoreAdapter): Promise<AdapterProduct[]> {
+  const tiles = await page.$$eval(
+    adapter.resultListSelector,
+    (elements, selectors) => elements.map((element) => {
+      const fields: Record<string, string> = {};
+      for (const [key, selector] of Object.entries(selectors)) {
+        fields[key] = element.querySelector(selector)?.textContent?.trim() || '';
+      }
+      return fields;
+    }),
+    adapter.fieldSelectors
+  );
+
+  return tiles
+    .map((fields) => adapter.parseProduct(fields))
+    .filter((product): product is AdapterProduct => product !== null);
+}
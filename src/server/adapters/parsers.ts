@@ -0,0 +1,42 @@
+/**
+ * Parse a price rendered as separate dollars and cents elements
+ */
+export function parseDollarsAndCents(
+  dollars: string | undefined,
+  cents: string | undefined
+): number | undefined {
+  const dollarDigits = dollars?.replace(/[^\d]/g, '');
+  if (!dollarDigits) {
+    return undefined;
+  }
+
+  const centDigits = cents?.replace(/[^\d]/g, '').padEnd(2, '0').substring(0, 2) || '00';
+  return parseInt(dollarDigits, 10) + parseInt(centDigits, 10) / 100;
+}
+
+/**
+ * Parse a price written as text, e.g. "$4.50" or "Non-club price $4.50"
+ */
+export function parsePriceText(text: string | undefined): number | undefined {
+  const match = text?.match(/\$\s?(\d{1,5}(?:\.\d{1,2})?)/);
+  return match ? parseFloat(match[1]) : undefined;
+}
+
+/**
+ * Normalise unit price text such as "$2.15 / 1L" or "$1.43/100g"
+ */
+export function parseUnitPriceText(text: string | undefined): string | undefined {
+  const normalized = text?.replace(/\s+/g, ' ').trim();
+  return normalized ? normalized.replace(/\s*\/\s*/, ' / ') : undefined;
+}
+
+/**
+ * Build a search URL on the store's own origin
+ */
+export function buildUrl(websiteUrl: string, path: string, params: Record<string, string>): string {
+  const url = new URL(path, websiteUrl);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
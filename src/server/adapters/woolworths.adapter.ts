@@ -0,0 +1,42 @@
+import { StoreAdapter } from '../types';
+import { buildUrl, parseDollarsAndCents, parsePriceText, parseUnitPriceText } from './parsers';
+import { parsePromoTerms } from '../utils/promo';
+
+/**
+ * Adapter for Woolworths NZ (formerly Countdown)
+ */
+export const woolworthsAdapter: StoreAdapter = {
+  name: 'Woolworths',
+  hostnames: ['woolworths.co.nz', 'countdown.co.nz'],
+  buildSearchUrl: (websiteUrl, query) => buildUrl(websiteUrl, '/shop/searchproducts', { search: query }),
+  resultListSelector: 'cdx-card product-stamp-grid',
+  fieldSelectors: {
+    title: 'h3[id$="-title"]',
+    dollars: 'product-price h3 em',
+    cents: 'product-price h3 span',
+    unitPrice: '.cupPrice',
+    unavailable: '.product-unavailable, product-add-to-trolley .unavailable',
+    // "Was $4.50", multi-buy, Everyday Rewards and "Price valid until" texts around the price
+    wasPrice: 'product-price .price--was, product-price .was',
+    promo: '.product-meta .productStrap, product-badge, .multiBuy',
+    memberPrice: '.product-meta .clubPrice, product-price .club',
+    promoEnd: '.product-meta .priceValidUntil, .price-valid-until',
+  },
+  parseProduct: (fields) => {
+    if (!fields.title) {
+      return null;
+    }
+
+    const terms = parsePromoTerms([fields.promo, fields.promoEnd].filter(Boolean).join('\n'));
+
+    return {
+      ...terms,
+      name: fields.title,
+      price: parseDollarsAndCents(fields.dollars, fields.cents),
+      regularPrice: parsePriceText(fields.wasPrice) ?? terms.regularPrice,
+      memberPrice: parsePriceText(fields.memberPrice) ?? terms.memberPrice,
+      unitPrice: parseUnitPriceText(fields.unitPrice),
+      availability: fields.unavailable ? 'Out of Stock' : 'In Stock',
+    };
+  },
+};
@@ -33,6 +33,31 @@ const configSchema = z.object({
     delayBetweenProductsMs: z.number().default(2000),
     scrapeTimeoutMs: z.number().default(30000),
     maxRetries: z.number().default(3),
+    useStoreAdapters: z.boolean().default(true),
+  }),
+
+  persistence: z.object({
+    backend: z.enum(['memory', 'file']).default('memory'),
+    dataDir: z.string().default('data'),
+  }),
+
+  matching: z.object({
+    /** auto uses Azure AI Search when it is configured, otherwise the local index */
+    engine: z.enum(['auto', 'azure', 'local']).default('auto'),
+    exactMatchThreshold: z.number().min(0).max(1).default(0.85),
+    /** Relative weight of each match score component */
+    weights: z.object({
+      brand: z.number().min(0).default(0.25),
+      size: z.number().min(0).default(0.25),
+      name: z.number().min(0).default(0.35),
+      vector: z.number().min(0).default(0.15),
+    }),
+  }),
+
+  alerts: z.object({
+    priceChangePercent: z.number().positive().default(10),
+    webhookUrl: z.string().url().optional(),
+    webhookTimeoutMs: z.number().default(10000),
   }),
 
   rateLimit: z.object({
@@ -76,6 +101,29 @@ export const config = configSchema.parse({
     delayBetweenProductsMs: parseInt(process.env.DELAY_BETWEEN_PRODUCTS_MS || '2000', 10),
     scrapeTimeoutMs: parseInt(process.env.SCRAPE_TIMEOUT_MS || '30000', 10),
     maxRetries: parseInt(process.env.MAX_RETRIES || '3', 10),
+    useStoreAdapters: process.env.USE_STORE_ADAPTERS !== 'false',
+  },
+
+  persistence: {
+    backend: (process.env.STORAGE_BACKEND as 'memory' | 'file') || 'memory',
+    dataDir: process.env.STORAGE_DATA_DIR || 'data',
+  },
+
+  matching: {
+    engine: (process.env.MATCHING_ENGINE as 'auto' | 'azure' | 'local') || 'auto',
+    exactMatchThreshold: parseFloat(process.env.MATCH_EXACT_THRESHOLD || '0.85'),
+    weights: {
+      brand: parseFloat(process.env.MATCH_WEIGHT_BRAND || '0.25'),
+      size: parseFloat(process.env.MATCH_WEIGHT_SIZE || '0.25'),
+      name: parseFloat(process.env.MATCH_WEIGHT_NAME || '0.35'),
+      vector: parseFloat(process.env.MATCH_WEIGHT_VECTOR || '0.15'),
+    },
+  },
+
+  alerts: {
+    priceChangePercent: parseFloat(process.env.ALERT_PRICE_CHANGE_PERCENT || '10'),
+    webhookUrl: process.env.ALERT_WEBHOOK_URL || undefined,
+    webhookTimeoutMs: parseInt(process.env.ALERT_WEBHOOK_TIMEOUT_MS || '10000', 10),
   },
 
   rateLimit: {
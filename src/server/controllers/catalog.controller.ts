@@ -0,0 +1,393 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  listCatalogStores,
+  getCatalogStore,
+  findCatalogStoreByName,
+  createCatalogStore,
+  updateCatalogStore,
+  deleteCatalogStore,
+  importCatalogStores,
+  listCatalogProducts,
+  getCatalogProduct,
+  createCatalogProduct,
+  updateCatalogProduct,
+  deleteCatalogProduct,
+  importCatalogProducts,
+} from '../services/catalog.service';
+import { parseStoresFile, parseProductsFile, UploadFileOptions } from '../services/csv-parser.service';
+import { createSurveyJob } from '../services/survey.service';
+import { startScraping } from '../services/scraper.service';
+import { CatalogProduct, CatalogStore, ProductData, StoreData, UploadResponse } from '../types';
+import { AppError } from '../middleware/error-handler';
+import { storeSchema, productSchema, duplicatePolicySchema, parseBody } from '../utils/validation';
+import { logger } from '../utils/logger';
+
+const productChangesSchema = productSchema.omit({ productId: true }).partial();
+
+const catalogJobSchema = z.object({
+  /** Omitted lists mean the whole catalog */
+  storeIds: z.array(z.string()).optional(),
+  productIds: z.array(z.string()).optional(),
+  start: z.boolean().optional(),
+});
+
+/**
+ * Pick catalog entries by ID, or all of them when no IDs are given
+ */
+function selectEntries<T>(
+  label: string,
+  ids: string[] | undefined,
+  all: () => T[],
+  get: (id: string) => T | undefined
+): T[] {
+  if (!ids) {
+    return all();
+  }
+
+  const unique = [...new Set(ids)];
+  const missing = unique.filter((id) => !get(id));
+  if (missing.length > 0) {
+    throw new AppError(400, `Unknown ${label} IDs: ${missing.join(', ')}`);
+  }
+
+  return unique.map((id) => get(id)!);
+}
+
+/**
+ * Get the uploaded import file and its parse options (optional "sheet" and, for
+ * products, "duplicates" fields) or fail with 400
+ */
+function requireImportFile(req: Request): { file: Express.Multer.File; options: UploadFileOptions } {
+  if (!req.file) {
+    throw new AppError(400, 'A CSV, TSV or XLSX file is required in the "file" field');
+  }
+
+  const field = (name: string): string | undefined =>
+    typeof req.body?.[name] === 'string' && req.body[name].trim() !== '' ? req.body[name].trim() : undefined;
+
+  const duplicates = field('duplicates');
+  return {
+    file: req.file,
+    options: {
+      filename: req.file.originalname,
+      sheet: field('sheet'),
+      duplicates: duplicates === undefined
+        ? undefined
+        : parseBody(duplicatePolicySchema, duplicates.toLowerCase(), 'duplicates'),
+    },
+  };
+}
+
+/**
+ * List saved stores
+ */
+export async function listStoresController(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).json({ stores: listCatalogStores() });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a saved store
+ */
+export async function getStoreController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const store = getCatalogStore(req.params.storeId);
+    if (!store) {
+      throw new AppError(404, `Store ${req.params.storeId} not found`);
+    }
+
+    res.status(200).json(store);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Save a new store; store names are unique
+ */
+export async function createStoreController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = parseBody(storeSchema, req.body, 'store');
+
+    const existing = findCatalogStoreByName(body.storeName);
+    if (existing) {
+      throw new AppError(409, `Store "${body.storeName}" already exists (${existing.storeId})`);
+    }
+
+    res.status(201).json(createCatalogStore(body));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Update a saved store
+ */
+export async function updateStoreController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { storeId } = req.params;
+    if (!getCatalogStore(storeId)) {
+      throw new AppError(404, `Store ${storeId} not found`);
+    }
+
+    const body = parseBody(storeSchema.partial(), req.body, 'store');
+
+    const existing = body.storeName ? findCatalogStoreByName(body.storeName) : undefined;
+    if (existing && existing.storeId !== storeId) {
+      throw new AppError(409, `Store "${body.storeName}" already exists (${existing.storeId})`);
+    }
+
+    res.status(200).json(updateCatalogStore(storeId, body));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete a saved store
+ */
+export async function deleteStoreController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { storeId } = req.params;
+    if (!deleteCatalogStore(storeId)) {
+      throw new AppError(404, `Store ${storeId} not found`);
+    }
+
+    res.status(200).json({ status: 'deleted', storeId });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Import stores from a CSV, TSV or XLSX file, updating stores with the same name
+ */
+export async function importStoresController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { file, options } = requireImportFile(req);
+    const parsed = await parseStoresFile(file.buffer, options);
+
+    if (parsed.errors.length > 0) {
+      logger.warn(`Store import validation errors: ${parsed.errors.length} errors found`);
+      res.status(400).json({
+        status: 'error',
+        message: 'File validation failed',
+        errors: parsed.errors,
+      });
+      return;
+    }
+
+    res.status(200).json(importCatalogStores(parsed.data));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * List saved products
+ */
+export async function listProductsController(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).json({ products: listCatalogProducts() });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a saved product
+ */
+export async function getProductController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const product = getCatalogProduct(req.params.productId);
+    if (!product) {
+      throw new AppError(404, `Product ${req.params.productId} not found`);
+    }
+
+    res.status(200).json(product);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Save a new product; product IDs are unique
+ */
+export async function createProductController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = parseBody(productSchema, req.body, 'product');
+
+    if (getCatalogProduct(body.productId)) {
+      throw new AppError(409, `Product ${body.productId} already exists`);
+    }
+
+    res.status(201).json(createCatalogProduct(body));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Update a saved product (its ID cannot change)
+ */
+export async function updateProductController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { productId } = req.params;
+    if (!getCatalogProduct(productId)) {
+      throw new AppError(404, `Product ${productId} not found`);
+    }
+
+    const body = parseBody(productChangesSchema, req.body, 'product');
+
+    res.status(200).json(updateCatalogProduct(productId, body));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete a saved product
+ */
+export async function deleteProductController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { productId } = req.params;
+    if (!(await deleteCatalogProduct(productId))) {
+      throw new AppError(404, `Product ${productId} not found`);
+    }
+
+    res.status(200).json({ status: 'deleted', productId });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Import products from a CSV, TSV or XLSX file, updating products with the same ID
+ */
+export async function importProductsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { file, options } = requireImportFile(req);
+    const parsed = await parseProductsFile(file.buffer, options);
+
+    if (parsed.errors.length > 0) {
+      logger.warn(`Product import validation errors: ${parsed.errors.length} errors found`);
+      res.status(400).json({
+        status: 'error',
+        message: 'File validation failed',
+        errors: parsed.errors,
+      });
+      return;
+    }
+
+    // Duplicate and near-duplicate rows do not stop an import
+    res.status(200).json({ ...importCatalogProducts(parsed.data), warnings: parsed.warnings });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Create a job from a subset of the catalog, optionally starting it straight away
+ */
+export async function createCatalogJobController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = parseBody(catalogJobSchema, req.body, 'job');
+
+    const stores = selectEntries<CatalogStore>('store', body.storeIds, listCatalogStores, getCatalogStore);
+    const products = selectEntries<CatalogProduct>('product', body.productIds, listCatalogProducts, getCatalogProduct);
+
+    if (stores.length === 0) {
+      throw new AppError(400, 'No stores selected from the catalog');
+    }
+
+    if (products.length === 0) {
+      throw new AppError(400, 'No products selected from the catalog');
+    }
+
+    // Jobs keep their own copy without catalog metadata
+    const storeData: StoreData[] = stores.map(({ storeName, websiteUrl }) => ({ storeName, websiteUrl }));
+    const productData: ProductData[] = products.map(({ productId, productName, description, brand }) => ({
+      productId,
+      productName,
+      description,
+      brand,
+    }));
+
+    const { jobId } = createSurveyJob(storeData, productData);
+
+    if (body.start) {
+      startScraping(jobId).catch((error) => {
+        logger.error(`Catalog job ${jobId} failed: ${error.message}`, { stack: error.stack });
+      });
+    }
+
+    const response: UploadResponse = {
+      jobId,
+      stores: storeData.length,
+      products: productData.length,
+      message: body.start ? 'Job created from catalog and started' : 'Job created from catalog',
+    };
+
+    logger.info(`Catalog job ${jobId} created with ${response.stores} stores and ${response.products} products`);
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { getJob, hasResults } from '../services/job-storage.service';
+import { buildComparison } from '../services/comparison.service';
+import { ReplacementMode } from '../types';
+import { AppError } from '../middleware/error-handler';
+
+const REPLACEMENT_MODES: ReplacementMode[] = ['include', 'flag', 'exclude'];
+
+/**
+ * Parse the replacements query parameter (default: flag)
+ */
+function parseReplacementMode(value: unknown): ReplacementMode {
+  if (value === undefined || value === '') {
+    return 'flag';
+  }
+
+  const mode = String(value).trim().toLowerCase();
+  if (!REPLACEMENT_MODES.includes(mode as ReplacementMode)) {
+    throw new AppError(400, `replacements must be one of: ${REPLACEMENT_MODES.join(', ')}`);
+  }
+
+  return mode as ReplacementMode;
+}
+
+/**
+ * Get a job's results as a product × store price comparison with basket totals
+ */
+export async function getResultComparison(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { jobId } = req.params;
+    const mode = parseReplacementMode(req.query.replacements);
+
+    const job = getJob(jobId);
+    if (!job) {
+      throw new AppError(404, `Job ${jobId} not found`);
+    }
+
+    if (!hasResults(job)) {
+      throw new AppError(400, `Job ${jobId} is not yet completed (status: ${job.status})`);
+    }
+
+    res.status(200).json(buildComparison(job, mode));
+  } catch (error) {
+    next(error);
+  }
+}
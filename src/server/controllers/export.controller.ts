@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from 'express';
+import { getJob, hasResults } from '../services/job-storage.service';
+import {
+  streamResultsCsv,
+  streamResultsNdjson,
+  buildResultsWorkbook,
+  buildExportFilename,
+  getExportColumnKeys,
+  ExportFormat,
+  EXPORT_FORMATS,
+} from '../services/export.service';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+
+// Named delimiters accepted in the query string (raw characters are accepted too)
+const DELIMITERS: Record<string, string> = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+  pipe: '|',
+};
+
+/**
+ * Parse the delimiter query parameter
+ */
+function parseDelimiter(value: unknown): string {
+  if (value === undefined || value === '') {
+    return ',';
+  }
+
+  const delimiter = DELIMITERS[String(value).toLowerCase()] ?? String(value);
+  if (!Object.values(DELIMITERS).includes(delimiter)) {
+    throw new AppError(400, `Unsupported delimiter: ${value}. Use one of: ${Object.keys(DELIMITERS).join(', ')}`);
+  }
+
+  return delimiter;
+}
+
+/**
+ * Parse the comma-separated columns query parameter
+ */
+function parseColumns(value: unknown): string[] | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const columns = String(value).split(',').map((column) => column.trim()).filter(Boolean);
+  const available = getExportColumnKeys();
+  const unknown = columns.filter((column) => !available.includes(column));
+
+  if (unknown.length > 0) {
+    throw new AppError(400, `Unknown columns: ${unknown.join(', ')}. Available: ${available.join(', ')}`);
+  }
+
+  return columns;
+}
+
+/**
+ * Parse the locale query parameter used for price formatting
+ */
+function parseLocale(value: unknown): string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const locale = String(value);
+  try {
+    if (Intl.NumberFormat.supportedLocalesOf(locale).length > 0) {
+      return locale;
+    }
+  } catch {
+    // Invalid BCP 47 tag, reported below
+  }
+
+  throw new AppError(400, `Unsupported locale: ${locale}`);
+}
+
+/**
+ * Parse the format query parameter (default: csv)
+ */
+function parseFormat(value: unknown): ExportFormat {
+  if (value === undefined || value === '') {
+    return 'csv';
+  }
+
+  const format = String(value).trim().toLowerCase();
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new AppError(400, `Unsupported format: ${value}. Use one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  return format as ExportFormat;
+}
+
+/**
+ * Send a job's results as a download in the requested format
+ */
+async function sendExport(req: Request, res: Response, format: ExportFormat): Promise<void> {
+  const { jobId } = req.params;
+
+  const job = getJob(jobId);
+  if (!job) {
+    throw new AppError(404, `Job ${jobId} not found`);
+  }
+
+  if (!hasResults(job)) {
+    throw new AppError(400, `Job ${jobId} is not yet completed (status: ${job.status})`);
+  }
+
+  const options = {
+    columns: parseColumns(req.query.columns),
+    delimiter: parseDelimiter(req.query.delimiter),
+    locale: parseLocale(req.query.locale),
+  };
+
+  const filename = buildExportFilename(job, format);
+
+  logger.info(`Exporting ${job.results?.length || 0} results for job ${jobId} as ${format.toUpperCase()}`, options);
+
+  res.status(200);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (format === 'xlsx') {
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.send(buildResultsWorkbook(job, options));
+    return;
+  }
+
+  if (format === 'ndjson') {
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    await streamResultsNdjson(job.results || [], res, options);
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  await streamResultsCsv(job.results || [], res, options);
+}
+
+/**
+ * Export job results as a CSV, XLSX or NDJSON download
+ */
+export async function exportResults(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await sendExport(req, res, parseFormat(req.query.format));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Export job results as a CSV download
+ */
+export async function exportResultsCsv(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await sendExport(req, res, 'csv');
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import { getJob, hasResults } from '../services/job-storage.service';
+import { getProductHistory, getPriceChanges } from '../services/price-history.service';
+import { AppError } from '../middleware/error-handler';
+
+/**
+ * Get a product's price time series at each store
+ */
+export async function getProductHistoryController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { productId } = req.params;
+    const storeName = req.query.store !== undefined ? String(req.query.store).trim().toLowerCase() : '';
+
+    const histories = getProductHistory(productId)
+      .filter((history) => !storeName || history.storeName.toLowerCase() === storeName);
+
+    if (histories.length === 0) {
+      throw new AppError(404, `No price history for product ${productId}`);
+    }
+
+    res.status(200).json({
+      productId,
+      stores: histories.map(({ storeName, points }) => ({ storeName, points })),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get price changes of a job's results since the previous run of each product and store
+ */
+export async function getResultChanges(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { jobId } = req.params;
+
+    const job = getJob(jobId);
+    if (!job) {
+      throw new AppError(404, `Job ${jobId} not found`);
+    }
+
+    if (!hasResults(job)) {
+      throw new AppError(400, `Job ${jobId} is not yet completed (status: ${job.status})`);
+    }
+
+    res.status(200).json({
+      jobId,
+      changes: getPriceChanges(jobId, job.results || []),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,207 @@
+import { Request, Response, NextFunction } from 'express';
+import { getJob, deleteJob, findJobs, getProductIdsInUse } from '../services/job-storage.service';
+import { isScraping, cancelScraping } from '../services/scraper.service';
+import { getMatchingEngine } from '../matching';
+import { removeJobHistory } from '../services/price-history.service';
+import { isCatalogProduct } from '../services/catalog.service';
+import { JobStatus } from '../types';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parse a positive integer query parameter
+ */
+function parsePositiveInt(name: string, value: unknown, fallback: number): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new AppError(400, `${name} must be a positive integer`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse the comma-separated status query parameter
+ */
+function parseStatuses(value: unknown): JobStatus[] | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const available = Object.values(JobStatus) as string[];
+  const statuses = String(value).split(',').map((status) => status.trim().toLowerCase()).filter(Boolean);
+  const unknown = statuses.filter((status) => !available.includes(status));
+
+  if (unknown.length > 0) {
+    throw new AppError(400, `Unknown status: ${unknown.join(', ')}. Available: ${available.join(', ')}`);
+  }
+
+  return statuses as JobStatus[];
+}
+
+/**
+ * Parse a date query parameter (ISO 8601, e.g. 2025-01-31 or 2025-01-31T12:00:00Z).
+ * A bare date used as an upper bound covers that whole day.
+ */
+function parseDate(name: string, value: unknown, endOfDay = false): Date | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new AppError(400, `${name} must be an ISO 8601 date`);
+  }
+
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+
+  return date;
+}
+
+/**
+ * Parse the sort order query parameter
+ */
+function parseSort(value: unknown): 'asc' | 'desc' {
+  if (value === undefined || value === '') {
+    return 'desc';
+  }
+
+  const sort = String(value).toLowerCase();
+  if (sort !== 'asc' && sort !== 'desc') {
+    throw new AppError(400, 'sort must be asc or desc');
+  }
+
+  return sort;
+}
+
+/**
+ * List jobs, newest first by default, with filters and pagination
+ */
+export async function listJobsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const pageSize = parsePositiveInt('pageSize', req.query.pageSize, DEFAULT_PAGE_SIZE);
+    if (pageSize > MAX_PAGE_SIZE) {
+      throw new AppError(400, `pageSize must be at most ${MAX_PAGE_SIZE}`);
+    }
+
+    const createdFrom = parseDate('from', req.query.from);
+    const createdTo = parseDate('to', req.query.to, true);
+    if (createdFrom && createdTo && createdFrom > createdTo) {
+      throw new AppError(400, 'from must not be after to');
+    }
+
+    const storeName = req.query.store !== undefined ? String(req.query.store).trim() : '';
+
+    const page = findJobs({
+      statuses: parseStatuses(req.query.status),
+      createdFrom,
+      createdTo,
+      storeName: storeName || undefined,
+      sort: parseSort(req.query.sort),
+      page: parsePositiveInt('page', req.query.page, 1),
+      pageSize,
+    });
+
+    res.status(200).json(page);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the price alerts raised when a job was compared with the previous run
+ */
+export async function getJobAlerts(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { jobId } = req.params;
+
+    const job = getJob(jobId);
+    if (!job) {
+      throw new AppError(404, `Job ${jobId} not found`);
+    }
+
+    const types = req.query.type !== undefined
+      ? String(req.query.type).split(',').map((type) => type.trim()).filter(Boolean)
+      : [];
+    const alerts = (job.alerts || []).filter((alert) => types.length === 0 || types.includes(alert.type));
+
+    res.status(200).json({
+      jobId,
+      // Alerts are evaluated when a job completes
+      evaluated: job.alerts !== undefined,
+      alerts,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete a job, stopping its scrape and removing its products from the search index
+ */
+export async function deleteJobController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { jobId } = req.params;
+
+    const job = getJob(jobId);
+    if (!job) {
+      throw new AppError(404, `Job ${jobId} not found`);
+    }
+
+    if (isScraping(jobId)) {
+      const stopped = await cancelScraping(jobId);
+      if (!stopped) {
+        throw new AppError(409, `Job ${jobId} is still stopping its running scrape, try again shortly`);
+      }
+    }
+
+    // Products are indexed by productId, so keep those another job or the catalog still uses
+    const stillUsed = getProductIdsInUse(jobId);
+    const orphanedProductIds = Array.from(new Set(job.products.map((product) => product.productId)))
+      .filter((productId) => !stillUsed.has(productId) && !isCatalogProduct(productId));
+
+    deleteJob(jobId);
+    removeJobHistory(jobId);
+
+    let removedFromIndex = 0;
+    const engine = getMatchingEngine();
+    if (engine.isAvailable()) {
+      try {
+        removedFromIndex = await engine.removeProducts(orphanedProductIds);
+      } catch (error) {
+        logger.error(`Failed to remove products of deleted job ${jobId} from index`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    res.status(200).json({
+      status: 'deleted',
+      jobId,
+      removedFromIndex,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
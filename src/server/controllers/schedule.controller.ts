@@ -0,0 +1,245 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  createSchedule,
+  getSchedule,
+  listSchedules,
+  updateSchedule,
+  deleteSchedule,
+  runSchedule,
+} from '../services/schedule.service';
+import { getJob } from '../services/job-storage.service';
+import { ScheduleSummary, SurveySchedule } from '../types';
+import { AppError } from '../middleware/error-handler';
+import { parseCron, getNextRun } from '../utils/cron';
+import { storeSchema, productSchema, parseBody } from '../utils/validation';
+
+const cronSchema = z.string().superRefine((cron, ctx) => {
+  try {
+    // Also rejects valid expressions that never match, such as "0 0 31 2 *"
+    getNextRun(parseCron(cron), new Date());
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : 'Invalid cron expression',
+    });
+  }
+});
+
+const scheduleSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(200),
+  cron: cronSchema,
+  enabled: z.boolean().optional(),
+  /** Copy the store and product lists of an existing job */
+  fromJobId: z.string().optional(),
+  stores: z.array(storeSchema).min(1, 'at least one store is required').optional(),
+  products: z.array(productSchema).min(1, 'at least one product is required').optional(),
+});
+
+/**
+ * Resolve the store and product lists from the body or from the job it references
+ */
+function resolveSurveyLists(
+  body: Pick<z.infer<typeof scheduleSchema>, 'fromJobId' | 'stores' | 'products'>
+): Pick<SurveySchedule, 'stores' | 'products'> | undefined {
+  if (!body.fromJobId) {
+    return body.stores && body.products ? { stores: body.stores, products: body.products } : undefined;
+  }
+
+  const job = getJob(body.fromJobId);
+  if (!job) {
+    throw new AppError(404, `Job ${body.fromJobId} not found`);
+  }
+
+  return {
+    stores: body.stores || job.stores,
+    products: body.products || job.products,
+  };
+}
+
+/**
+ * Summarize a schedule for listings, without its full store and product lists
+ */
+function summarizeSchedule(schedule: SurveySchedule): ScheduleSummary {
+  const { stores, products, runs, ...rest } = schedule;
+  return {
+    ...rest,
+    stores: stores.length,
+    products: products.length,
+    lastRun: runs[0],
+  };
+}
+
+/**
+ * Get a schedule by ID or fail with 404
+ */
+function requireSchedule(scheduleId: string): SurveySchedule {
+  const schedule = getSchedule(scheduleId);
+  if (!schedule) {
+    throw new AppError(404, `Schedule ${scheduleId} not found`);
+  }
+  return schedule;
+}
+
+/**
+ * List schedules
+ */
+export async function listSchedulesController(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).json({ schedules: listSchedules().map(summarizeSchedule) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Create a schedule from store and product lists or from an existing job
+ */
+export async function createScheduleController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = parseBody(scheduleSchema, req.body, 'schedule');
+
+    const lists = resolveSurveyLists(body);
+    if (!lists) {
+      throw new AppError(400, 'Invalid schedule: provide stores and products, or fromJobId');
+    }
+
+    const schedule = createSchedule({
+      name: body.name,
+      cron: body.cron,
+      enabled: body.enabled,
+      ...lists,
+    });
+
+    res.status(201).json(schedule);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a schedule with its store and product lists
+ */
+export async function getScheduleController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).json(requireSchedule(req.params.scheduleId));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Update some fields of a schedule
+ */
+export async function updateScheduleController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    requireSchedule(scheduleId);
+
+    const body = parseBody(scheduleSchema.partial(), req.body, 'schedule');
+    const lists = body.fromJobId ? resolveSurveyLists(body) : undefined;
+
+    const schedule = updateSchedule(scheduleId, {
+      name: body.name,
+      cron: body.cron,
+      enabled: body.enabled,
+      stores: lists?.stores ?? body.stores,
+      products: lists?.products ?? body.products,
+    });
+
+    res.status(200).json(schedule);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete a schedule, keeping the jobs it created
+ */
+export async function deleteScheduleController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    requireSchedule(scheduleId);
+
+    deleteSchedule(scheduleId);
+
+    res.status(200).json({ status: 'deleted', scheduleId });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Run a schedule now, outside its cron timing
+ */
+export async function runScheduleController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    requireSchedule(scheduleId);
+
+    const run = runSchedule(scheduleId, 'manual')!;
+
+    if (run.outcome === 'skipped') {
+      throw new AppError(409, run.message || 'Schedule run skipped');
+    }
+
+    if (run.outcome === 'failed') {
+      throw new AppError(500, run.message || 'Schedule run failed');
+    }
+
+    res.status(202).json(run);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * List a schedule's past runs with the current status of their jobs
+ */
+export async function getScheduleRunsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const schedule = requireSchedule(req.params.scheduleId);
+
+    const runs = schedule.runs.map((run) => {
+      const job = run.jobId ? getJob(run.jobId) : undefined;
+      return {
+        ...run,
+        // Jobs can be deleted independently of their schedule
+        jobStatus: run.jobId ? job?.status ?? 'deleted' : undefined,
+        resultsCount: job?.results?.length,
+      };
+    });
+
+    res.status(200).json({ scheduleId: schedule.scheduleId, runs });
+  } catch (error) {
+    next(error);
+  }
+}
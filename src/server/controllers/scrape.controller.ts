@@ -1,6 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
-import { getJob } from '../services/job-storage.service';
-import { startScraping } from '../services/scraper.service';
+import {
+  getJob,
+  hasResults,
+  countPendingTasks,
+  getJobProgress,
+  summarizeProgress,
+} from '../services/job-storage.service';
+import {
+  startScraping,
+  isScraping,
+  cancelScraping,
+  pauseScraping,
+  resumeScraping,
+} from '../services/scraper.service';
 import { JobStatus } from '../types';
 import { AppError } from '../middleware/error-handler';
 import { logger } from '../utils/logger';
@@ -27,15 +39,20 @@ export async function scrapeController(
     }
 
     // Check if job is already processing
-    if (job.status === JobStatus.PROCESSING) {
+    if (job.status === JobStatus.PROCESSING || isScraping(jobId)) {
       throw new AppError(400, `Job ${jobId} is already being processed`);
     }
 
+    if (job.status === JobStatus.PAUSED) {
+      throw new AppError(400, `Job ${jobId} is paused, resume it instead`);
+    }
+
     if (job.status === JobStatus.COMPLETED) {
       throw new AppError(400, `Job ${jobId} has already been completed`);
     }
 
-    logger.info(`Starting scrape for job: ${jobId}`);
+    // Failed and cancelled jobs pick up from their checkpointed results
+    logger.info(`Starting scrape for job: ${jobId} (status: ${job.status})`);
 
     // Start scraping in background (don't wait for it to complete)
     startScraping(jobId).catch((error) => {
@@ -53,6 +70,48 @@ export async function scrapeController(
   }
 }
 
+/**
+ * Retry the failed or missing tasks of a job, keeping results that already succeeded
+ */
+export async function retryJob(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { jobId } = req.params;
+
+    const job = getJob(jobId);
+    if (!job) {
+      throw new AppError(404, `Job ${jobId} not found`);
+    }
+
+    if (isScraping(jobId)) {
+      throw new AppError(409, `Job ${jobId} is still running (status: ${job.status})`);
+    }
+
+    const pendingTasks = countPendingTasks(job);
+    if (pendingTasks === 0) {
+      throw new AppError(409, `Job ${jobId} has no failed or missing tasks to retry`);
+    }
+
+    logger.info(`Retrying ${pendingTasks} tasks for job: ${jobId}`);
+
+    startScraping(jobId).catch((error) => {
+      logger.error(`Retry of job ${jobId} failed: ${error.message}`, { stack: error.stack });
+    });
+
+    res.status(202).json({
+      status: 'accepted',
+      message: 'Retry started',
+      jobId,
+      pendingTasks,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Get job status and progress
  */
@@ -69,6 +128,8 @@ export async function getJobStatus(
       throw new AppError(404, `Job ${jobId} not found`);
     }
 
+    const progress = getJobProgress(job);
+
     res.status(200).json({
       jobId: job.jobId,
       status: job.status,
@@ -76,7 +137,12 @@ export async function getJobStatus(
       stores: job.stores.length,
       products: job.products.length,
       resultsCount: job.results?.length || 0,
+      columnMapping: job.columnMapping,
       error: job.error,
+      progress: {
+        ...progress,
+        ...summarizeProgress(progress),
+      },
     });
   } catch (error) {
     next(error);
@@ -99,7 +165,7 @@ export async function getResults(
       throw new AppError(404, `Job ${jobId} not found`);
     }
 
-    if (job.status !== JobStatus.COMPLETED) {
+    if (!hasResults(job)) {
       throw new AppError(400, `Job ${jobId} is not yet completed (status: ${job.status})`);
     }
 
@@ -112,3 +178,102 @@ export async function getResults(
     next(error);
   }
 }
+
+/**
+ * Cancel a running or paused scrape, keeping the results collected so far
+ */
+export async function cancelJob(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { jobId } = req.params;
+
+    const job = getJob(jobId);
+    if (!job) {
+      throw new AppError(404, `Job ${jobId} not found`);
+    }
+
+    if (!isScraping(jobId)) {
+      throw new AppError(409, `Job ${jobId} is not running (status: ${job.status})`);
+    }
+
+    const stopped = await cancelScraping(jobId);
+
+    if (!stopped) {
+      // Still winding down, the job moves to cancelled once the current products finish
+      res.status(202).json({
+        status: 'cancelling',
+        jobId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: JobStatus.CANCELLED,
+      jobId,
+      resultsCount: getJob(jobId)?.results?.length || 0,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Pause a running scrape between products
+ */
+export async function pauseJob(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { jobId } = req.params;
+
+    const job = getJob(jobId);
+    if (!job) {
+      throw new AppError(404, `Job ${jobId} not found`);
+    }
+
+    if (!pauseScraping(jobId)) {
+      throw new AppError(409, `Job ${jobId} cannot be paused (status: ${job.status})`);
+    }
+
+    res.status(200).json({
+      status: JobStatus.PAUSED,
+      jobId,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Resume a paused scrape
+ */
+export async function resumeJob(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { jobId } = req.params;
+
+    const job = getJob(jobId);
+    if (!job) {
+      throw new AppError(404, `Job ${jobId} not found`);
+    }
+
+    if (!resumeScraping(jobId)) {
+      throw new AppError(409, `Job ${jobId} is not paused (status: ${job.status})`);
+    }
+
+    res.status(200).json({
+      status: JobStatus.PROCESSING,
+      jobId,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
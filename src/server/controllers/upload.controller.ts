@@ -1,14 +1,120 @@
 import { Request, Response, NextFunction } from 'express';
-import { randomUUID } from 'crypto';
-import { parseStoresCSV, parseProductsCSV } from '../services/csv-parser.service';
-import { saveJob } from '../services/job-storage.service';
-import { JobStatus, UploadResponse } from '../types';
+import { z } from 'zod';
+import {
+  parseStoresFile,
+  parseProductsFile,
+  previewStoresFile,
+  previewProductsFile,
+  buildUploadReport,
+} from '../services/csv-parser.service';
+import { createSurveyJob } from '../services/survey.service';
+import { ColumnMapping, DuplicatePolicy, UploadPreview, UploadReport, UploadResponse } from '../types';
 import { AppError } from '../middleware/error-handler';
+import { duplicatePolicySchema, parseBody } from '../utils/validation';
 import { logger } from '../utils/logger';
-import { indexProducts } from '../services/ai-search.service';
+
+type UploadedFiles = { [fieldname: string]: Express.Multer.File[] } | undefined;
+
+const columnMappingSchema = z.record(z.string().trim().min(1, 'column name is required'));
+
+/**
+ * Read an optional text field of a multipart form
+ */
+function getFormField(req: Request, name: string): string | undefined {
+  const value = req.body?.[name];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * Read a column mapping sent as a JSON form field, e.g. {"productId":"SKU"}
+ */
+function getMappingField(req: Request, name: string): ColumnMapping | undefined {
+  const value = getFormField(req, name);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch {
+    throw new AppError(400, `${name} must be a JSON object`);
+  }
+
+  return parseBody(columnMappingSchema, json, name);
+}
+
+/**
+ * Read the validation mode form field: strict (default) rejects the upload on any
+ * row error, lenient creates the job from the valid rows
+ */
+function getUploadMode(req: Request): UploadReport['mode'] {
+  const mode = getFormField(req, 'mode')?.toLowerCase() ?? 'strict';
+  if (mode !== 'strict' && mode !== 'lenient') {
+    throw new AppError(400, 'mode must be strict or lenient');
+  }
+  return mode;
+}
+
+/**
+ * Read the optional duplicates form field: how product rows sharing a ProductId
+ * are resolved before indexing
+ */
+function getDuplicatePolicy(req: Request): DuplicatePolicy | undefined {
+  const value = getFormField(req, 'duplicates');
+  return value === undefined ? undefined : parseBody(duplicatePolicySchema, value.toLowerCase(), 'duplicates');
+}
+
+/**
+ * Preview uploaded files: headers, sample rows and a suggested column for each field.
+ * Either file may be sent on its own.
+ */
+export async function previewUploadController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const files = req.files as UploadedFiles;
+    const storesFile = files?.storesFile?.[0];
+    const productsFile = files?.productsFile?.[0];
+
+    if (!storesFile && !productsFile) {
+      throw new AppError(400, 'storesFile or productsFile is required');
+    }
+
+    const preview: UploadPreview = {};
+
+    try {
+      if (storesFile) {
+        preview.stores = previewStoresFile(storesFile.buffer, {
+          filename: storesFile.originalname,
+          sheet: getFormField(req, 'storesSheet'),
+        });
+      }
+
+      if (productsFile) {
+        preview.products = previewProductsFile(productsFile.buffer, {
+          filename: productsFile.originalname,
+          sheet: getFormField(req, 'productsSheet'),
+        });
+      }
+    } catch (error) {
+      throw new AppError(400, `Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    res.status(200).json(preview);
+  } catch (error) {
+    next(error);
+  }
+}
 
 /**
- * Handle file upload
+ * Handle file upload (CSV, TSV or XLSX). Optional form fields: storesSheet and
+ * productsSheet name the XLSX sheets; storesMapping and productsMapping confirm
+ * the column for each field; mode=lenient skips invalid rows instead of failing;
+ * duplicates=keep-first|keep-last|merge leaves one product per ProductId
+ * (repeated ProductIds and store names otherwise keep their first row).
  */
 export async function uploadController(
   req: Request,
@@ -17,7 +123,7 @@ export async function uploadController(
 ): Promise<void> {
   try {
     // Check if files exist
-    const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+    const files = req.files as UploadedFiles;
 
     if (!files || !files.storesFile || !files.productsFile) {
       throw new AppError(400, 'Both storesFile and productsFile are required');
@@ -26,51 +132,53 @@ export async function uploadController(
     const storesFile = files.storesFile[0];
     const productsFile = files.productsFile[0];
 
-    logger.info(`Received upload request: ${storesFile.originalname}, ${productsFile.originalname}`);
+    const mode = getUploadMode(req);
+    const duplicates = getDuplicatePolicy(req);
 
-    // Parse CSV files
-    const storesResult = await parseStoresCSV(storesFile.buffer);
-    const productsResult = await parseProductsCSV(productsFile.buffer);
+    logger.info(`Received ${mode} upload request: ${storesFile.originalname}, ${productsFile.originalname}`);
 
-    // Check for parsing errors
-    const allErrors = [...storesResult.errors, ...productsResult.errors];
+    // Parse the files (XLSX reads the first sheet unless one is named)
+    const storesResult = await parseStoresFile(storesFile.buffer, {
+      filename: storesFile.originalname,
+      sheet: getFormField(req, 'storesSheet'),
+      mapping: getMappingField(req, 'storesMapping'),
+    });
+    const productsResult = await parseProductsFile(productsFile.buffer, {
+      filename: productsFile.originalname,
+      sheet: getFormField(req, 'productsSheet'),
+      mapping: getMappingField(req, 'productsMapping'),
+      duplicates,
+    });
+
+    const report = buildUploadReport(mode, { stores: storesResult, products: productsResult }, duplicates);
 
-    if (allErrors.length > 0) {
-      logger.warn(`CSV validation errors: ${allErrors.length} errors found`);
+    // Check for parsing errors; file-level errors (row 0) fail even a lenient upload
+    const blocking = mode === 'strict' ? report.errors : report.errors.filter((error) => error.row === 0);
+
+    let failure: string | undefined;
+    if (blocking.length > 0) {
+      failure = 'File validation failed';
+    } else if (storesResult.data.length === 0) {
+      // Check if we have any data
+      failure = 'No valid stores found in file';
+    } else if (productsResult.data.length === 0) {
+      failure = 'No valid products found in file';
+    }
+
+    if (failure) {
+      logger.warn(`Upload rejected: ${failure} (${report.errors.length} errors found)`);
       res.status(400).json({
         status: 'error',
-        message: 'CSV validation failed',
-        errors: allErrors,
+        message: failure,
+        errors: report.errors,
+        report,
       });
       return;
     }
 
-    // Check if we have any data
-    if (storesResult.data.length === 0) {
-      throw new AppError(400, 'No valid stores found in CSV file');
-    }
-
-    if (productsResult.data.length === 0) {
-      throw new AppError(400, 'No valid products found in CSV file');
-    }
-
-    // Generate job ID
-    const jobId = randomUUID();
-
-    // Save job data
-    saveJob({
-      jobId,
-      stores: storesResult.data,
-      products: productsResult.data,
-      status: JobStatus.UPLOADED,
-      createdAt: new Date(),
-    });
-
-    // Index products in Azure AI Search (async, don't wait)
-    indexProducts(productsResult.data).catch((error) => {
-      logger.error(`Failed to index products for job ${jobId}:`, {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
+    const { jobId } = createSurveyJob(storesResult.data, productsResult.data, {
+      columnMapping: { stores: storesResult.mapping, products: productsResult.mapping },
+      uploadReport: report,
     });
 
     // Return success response
@@ -78,10 +186,16 @@ export async function uploadController(
       jobId,
       stores: storesResult.data.length,
       products: productsResult.data.length,
-      message: 'Files uploaded and validated successfully',
+      message: report.skippedRows.length > 0
+        ? `Files uploaded; ${report.skippedRows.length} invalid rows were skipped`
+        : 'Files uploaded and validated successfully',
+      report,
     };
 
-    logger.info(`Upload successful: Job ${jobId} with ${response.stores} stores and ${response.products} products`);
+    logger.info(
+      `Upload successful: Job ${jobId} with ${response.stores} stores and ${response.products} products`
+      + ` (${report.skippedRows.length} rows skipped, ${report.warnings.length} warnings)`
+    );
 
     res.status(200).json(response);
   } catch (error) {
@@ -1,7 +1,9 @@
 import dotenv from 'dotenv';
 import { createServer } from 'http';
-import { Server as SocketIOServer } from 'socket.io';
 import { createApp } from './app';
+import { initRealtime } from './services/realtime.service';
+import { startScheduler, stopScheduler } from './services/schedule.service';
+import { flushRecordStores } from './storage';
 import { config } from './config';
 import { logger } from './utils/logger';
 
@@ -14,27 +16,8 @@ const app = createApp();
 // Create HTTP server
 const httpServer = createServer(app);
 
-// Initialize Socket.IO
-const io = new SocketIOServer(httpServer, {
-  cors: {
-    origin: config.nodeEnv === 'production'
-      ? process.env.ALLOWED_ORIGINS?.split(',') || '*'
-      : '*',
-    credentials: true,
-  },
-});
-
-// Socket.IO connection handling
-io.on('connection', (socket) => {
-  logger.info(`Client connected: ${socket.id}`);
-
-  socket.on('disconnect', () => {
-    logger.info(`Client disconnected: ${socket.id}`);
-  });
-});
-
-// Make io accessible to other modules
-export { io };
+// Initialize Socket.IO (per-job rooms)
+initRealtime(httpServer);
 
 // Start server
 // Azure App Service sets PORT environment variable
@@ -45,21 +28,26 @@ httpServer.listen(PORT, HOST, () => {
   logger.info(`Server running on http://${HOST}:${PORT}`);
   logger.info(`Environment: ${config.nodeEnv}`);
   logger.info(`Health check: http://${HOST}:${PORT}/api/health`);
+
+  // Start scheduled surveys once the server accepts requests
+  startScheduler();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
+  stopScheduler();
   httpServer.close(() => {
     logger.info('HTTP server closed');
-    process.exit(0);
+    flushRecordStores().finally(() => process.exit(0));
   });
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT signal received: closing HTTP server');
+  stopScheduler();
   httpServer.close(() => {
     logger.info('HTTP server closed');
-    process.exit(0);
+    flushRecordStores().finally(() => process.exit(0));
   });
 });
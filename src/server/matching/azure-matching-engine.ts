@@ -0,0 +1,37 @@
+import { ProductData } from '../types';
+import {
+  clearIndex,
+  indexProducts,
+  isSearchConfigured,
+  removeProducts,
+  searchProducts,
+} from '../services/ai-search.service';
+import { MatchingEngine, ProductMatch, SearchOptions } from './matching-engine';
+
+/**
+ * Matching backed by Azure AI Search hybrid (text and vector) queries,
+ * with Azure OpenAI embeddings
+ */
+export class AzureMatchingEngine implements MatchingEngine {
+  readonly name = 'azure';
+
+  isAvailable(): boolean {
+    return isSearchConfigured();
+  }
+
+  indexProducts(products: ProductData[]): Promise<void> {
+    return indexProducts(products);
+  }
+
+  removeProducts(productIds: string[]): Promise<number> {
+    return removeProducts(productIds);
+  }
+
+  searchProducts(query: string, options: SearchOptions = {}): Promise<ProductMatch[]> {
+    return searchProducts(query, options);
+  }
+
+  clearIndex(): Promise<void> {
+    return clearIndex();
+  }
+}
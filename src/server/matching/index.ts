@@ -0,0 +1,93 @@
+import { config } from '../config';
+import { createRecordStore } from '../storage';
+import { isSearchConfigured } from '../services/ai-search.service';
+import { generateEmbeddings, isOpenAIConfigured } from '../services/openai.service';
+import { ProductData } from '../types';
+import { logger } from '../utils/logger';
+import { MatchingEngine, ProductMatch, SearchOptions } from './matching-engine';
+import { AzureMatchingEngine } from './azure-matching-engine';
+import { IndexedProduct, LocalMatchingEngine } from './local-matching-engine';
+import { isExactMatchScore, MatchScore, scoreMatch } from './match-scorer';
+
+export type { MatchingEngine, ProductMatch, SearchOptions, MatchScore };
+export { scoreMatch, isExactMatchScore };
+
+export interface FoundProductScore extends MatchScore {
+  /** A different surveyed product the engine ranks closer to the found name */
+  closerProductId?: string;
+}
+
+// Products asked of the engine when scoring a found name
+const MATCH_CANDIDATES = 5;
+
+let engine: MatchingEngine | null = null;
+
+/**
+ * Create the configured matching engine. In auto mode Azure AI Search is used
+ * when configured, otherwise the local index.
+ */
+export function createMatchingEngine(): MatchingEngine {
+  const kind = config.matching.engine === 'auto'
+    ? (isSearchConfigured() ? 'azure' : 'local')
+    : config.matching.engine;
+
+  if (kind === 'azure') {
+    return new AzureMatchingEngine();
+  }
+
+  return new LocalMatchingEngine(
+    createRecordStore<IndexedProduct>('product-index'),
+    isOpenAIConfigured() ? generateEmbeddings : undefined
+  );
+}
+
+/**
+ * Get the shared matching engine
+ */
+export function getMatchingEngine(): MatchingEngine {
+  if (!engine) {
+    engine = createMatchingEngine();
+    logger.info(`Product matching engine: ${engine.name}`);
+  }
+
+  return engine;
+}
+
+/**
+ * Search the matching engine for a found name among products of one brand.
+ * Empty when the engine is unavailable or the search fails.
+ */
+async function searchSameBrand(foundProductName: string, brand: string): Promise<ProductMatch[]> {
+  const engine = getMatchingEngine();
+  if (!engine.isAvailable()) {
+    return [];
+  }
+
+  try {
+    return await engine.searchProducts(foundProductName, { brand, top: MATCH_CANDIDATES });
+  } catch (error) {
+    logger.warn('Matching engine search failed, scoring without it', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return [];
+  }
+}
+
+/**
+ * Score a product name found at a store against the requested product. The found
+ * name is searched in the matching engine among surveyed products of the same brand:
+ * the requested product's embedding similarity there feeds the score, and a different
+ * product ranked above it is reported.
+ */
+export async function scoreFoundProduct(product: ProductData, foundProductName: string): Promise<FoundProductScore> {
+  const matches = await searchSameBrand(foundProductName, product.brand);
+  const requested = matches.find((match) => match.productId === product.productId);
+  const top = matches[0];
+
+  return {
+    ...scoreMatch(product, foundProductName, { vectorSimilarity: requested?.similarity }),
+    closerProductId: requested && top.productId !== product.productId && top.score > requested.score
+      ? top.productId
+      : undefined,
+  };
+}
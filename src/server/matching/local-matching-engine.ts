@@ -0,0 +1,181 @@
+import { ProductData } from '../types';
+import { RecordStore } from '../storage';
+import { logger } from '../utils/logger';
+import { MatchingEngine, ProductMatch, SearchOptions } from './matching-engine';
+import { cosineSimilarity } from './match-scorer';
+
+export interface IndexedProduct extends ProductData {
+  searchText: string;
+  /** Absent when no embedding provider is configured or embedding failed */
+  embedding?: number[];
+}
+
+/** Embeds several texts at once, returning their embeddings in the order given */
+export type EmbeddingProvider = (texts: string[]) => Promise<number[][]>;
+
+// Texts sent to the embedding provider per request
+const EMBEDDING_BATCH_SIZE = 16;
+
+/**
+ * Lowercase text reduced to letters, digits and single spaces
+ */
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Character trigrams of each word, padded so short words and word starts count
+ */
+function trigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  for (const word of normalizeText(text).split(' ')) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient of the trigram sets of two texts (0..1), tolerant of word
+ * order, spacing and small spelling differences
+ */
+function trigramSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) {
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * In-process matching that needs no cloud services. Products are kept in a record
+ * store (so the file backend persists the index) and ranked by cosine similarity
+ * of embeddings when an embedding provider is available, or by trigram
+ * similarity of name and brand otherwise.
+ */
+export class LocalMatchingEngine implements MatchingEngine {
+  readonly name = 'local';
+
+  constructor(
+    private documents: RecordStore<IndexedProduct>,
+    private embed?: EmbeddingProvider
+  ) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async indexProducts(products: ProductData[]): Promise<void> {
+    const unique = new Map(products.map((product) => [product.productId, product]));
+
+    const documents = Array.from(unique.values(), (product): IndexedProduct => {
+      const searchText = `${product.productName} ${product.brand} ${product.description}`;
+      const existing = this.documents.get(product.productId);
+
+      return {
+        productId: product.productId,
+        productName: product.productName,
+        description: product.description,
+        brand: product.brand,
+        searchText,
+        // Re-uploading a product unchanged keeps its embedding
+        embedding: existing?.searchText === searchText ? existing.embedding : undefined,
+      };
+    });
+
+    const toEmbed = documents.filter((doc) => !doc.embedding);
+    if (this.embed) {
+      for (let i = 0; i < toEmbed.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = toEmbed.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const embeddings = await this.tryEmbed(batch.map((doc) => doc.searchText));
+        batch.forEach((doc, index) => {
+          doc.embedding = embeddings?.[index];
+        });
+      }
+    }
+
+    for (const doc of documents) {
+      this.documents.set(doc.productId, doc);
+    }
+
+    logger.info('Products indexed locally', {
+      total: documents.length,
+      embedded: documents.filter((doc) => doc.embedding).length,
+      reused: documents.length - toEmbed.length,
+    });
+  }
+
+  async removeProducts(productIds: string[]): Promise<number> {
+    return productIds.filter((productId) => this.documents.delete(productId)).length;
+  }
+
+  async searchProducts(query: string, options: SearchOptions = {}): Promise<ProductMatch[]> {
+    const { brand, top = 5 } = options;
+    const wantedBrand = brand ? normalizeText(brand) : undefined;
+
+    const candidates = this.documents.values()
+      .filter((doc) => wantedBrand === undefined || normalizeText(doc.brand) === wantedBrand);
+
+    const queryEmbedding = candidates.some((doc) => doc.embedding) ? (await this.tryEmbed([query]))?.[0] : undefined;
+    const queryGrams = trigrams(query);
+
+    const results = candidates
+      .map((doc): ProductMatch => {
+        const similarity = queryEmbedding && doc.embedding?.length === queryEmbedding.length
+          ? cosineSimilarity(queryEmbedding, doc.embedding)
+          : undefined;
+
+        return {
+          productId: doc.productId,
+          productName: doc.productName,
+          description: doc.description,
+          brand: doc.brand,
+          score: similarity ?? trigramSimilarity(queryGrams, trigrams(`${doc.productName} ${doc.brand}`)),
+          similarity,
+        };
+      })
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, top);
+
+    logger.debug('Local search completed', {
+      query,
+      mode: queryEmbedding ? 'vector' : 'trigram',
+      resultsCount: results.length,
+    });
+
+    return results;
+  }
+
+  async clearIndex(): Promise<void> {
+    const count = this.documents.keys().length;
+    this.documents.clear();
+    logger.info('Local index cleared', { deletedCount: count });
+  }
+
+  /**
+   * Embed texts if a provider is configured, falling back to lexical matching on failure
+   */
+  private async tryEmbed(texts: string[]): Promise<number[][] | undefined> {
+    if (!this.embed) {
+      return undefined;
+    }
+
+    try {
+      return await this.embed(texts);
+    } catch (error) {
+      logger.warn('Embedding failed, using lexical matching', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+}
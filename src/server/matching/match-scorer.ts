@@ -0,0 +1,186 @@
+import { config } from '../config';
+import { MatchBreakdown, ProductData } from '../types';
+import { tokenize } from '../services/price-extractor.service';
+import { parsePackSize } from '../utils/pack-size';
+
+export type MatchWeights = Required<MatchBreakdown>;
+
+export interface MatchScore {
+  /** Weighted mean of the components that could be judged (0..1) */
+  score: number;
+  breakdown: MatchBreakdown;
+}
+
+export interface MatchScoreOptions {
+  /** Embedding similarity of the product and the found name, when measured */
+  vectorSimilarity?: number;
+  weights?: MatchWeights;
+}
+
+// Names that refer to the same brand, after normalisation
+const BRAND_ALIASES: string[][] = [
+  ['coca cola', 'coke'],
+  ['pepsico', 'pepsi'],
+  ['woolworths', 'countdown'],
+  ['kelloggs', 'kellogg'],
+  ['cadbury', 'cadburys'],
+  ['arnotts', 'arnott'],
+];
+
+// Company suffixes ignored when comparing brands
+const BRAND_SUFFIXES = new Set(['ltd', 'limited', 'inc', 'nz']);
+
+/**
+ * Lowercase brand text without accents, apostrophes, punctuation or company suffixes,
+ * e.g. "Pam's" → "pams", "Nestlé NZ Ltd" → "nestle"
+ */
+export function normalizeBrand(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2019]/g, '')
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word !== '' && !BRAND_SUFFIXES.has(word))
+    .join(' ');
+}
+
+/**
+ * A brand and its known aliases, normalised
+ */
+function brandVariants(brand: string): string[] {
+  const normalized = normalizeBrand(brand);
+  const aliases = BRAND_ALIASES.find((group) => group.includes(normalized)) || [];
+  return [...new Set([normalized, ...aliases])].filter((variant) => variant !== '');
+}
+
+/**
+ * Cosine similarity of two vectors, clamped to 0..1
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return Math.max(0, dot / Math.sqrt(normA * normB));
+}
+
+/**
+ * 1 when the brand or an alias appears in the found name, matching multi-word
+ * brands with or without spaces ("Coca Cola", "CocaCola")
+ */
+function scoreBrand(brand: string, foundProductName: string): number | undefined {
+  const variants = brandVariants(brand);
+  if (variants.length === 0) {
+    return undefined;
+  }
+
+  const found = normalizeBrand(foundProductName);
+  const padded = ` ${found} `;
+  const compact = found.replace(/ /g, '');
+
+  return variants.some((variant) => padded.includes(` ${variant} `)
+    || (variant.includes(' ') && compact.includes(variant.replace(/ /g, '')))) ? 1 : 0;
+}
+
+/**
+ * 1 when both pack sizes are the same, 0.25 for the same total in a different
+ * pack (e.g. 6 x 330ml against 1.98L), otherwise 0
+ */
+function scoreSize(product: ProductData, foundProductName: string): number | undefined {
+  const expected = parsePackSize(product.description) ?? parsePackSize(product.productName);
+  const found = parsePackSize(foundProductName);
+  if (!expected || !found) {
+    return undefined;
+  }
+
+  const sameQuantity = expected.unit === found.unit
+    && Math.abs(expected.quantity - found.quantity) <= 0.02 * Math.max(expected.quantity, found.quantity);
+
+  if (!sameQuantity) {
+    return 0;
+  }
+  return expected.count === found.count ? 1 : 0.25;
+}
+
+/**
+ * Share of the product's words, other than brand and size words, found in the found name.
+ * The name and the description are scored separately and the better share taken, since
+ * either may be the fuller one (e.g. name "Banan", description "Dole Bobby Bananas").
+ */
+function scoreName(product: ProductData, foundProductName: string): number | undefined {
+  // "Pam's" is one word, as in normalizeBrand
+  const words = (text: string) => tokenize(text.replace(/['\u2019]/g, ''));
+
+  const brandWords = new Set(brandVariants(product.brand).flatMap((variant) => variant.split(' ')));
+  const found = new Set(words(foundProductName));
+
+  const shares = [product.productName, product.description]
+    .map((text) => [...new Set(words(text))].filter((token) => !brandWords.has(token) && !/\d/.test(token)))
+    .filter((wanted) => wanted.length > 0)
+    .map((wanted) => wanted.filter((token) => found.has(token)).length / wanted.length);
+
+  return shares.length > 0 ? Math.max(...shares) : undefined;
+}
+
+/**
+ * Round a score to three decimals
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Score how well a found product name matches the requested product, combining
+ * brand, pack size, name words and (when measured) embedding similarity.
+ * Components that cannot be judged are left out and the weights of the rest rescaled.
+ */
+export function scoreMatch(
+  product: ProductData,
+  foundProductName: string,
+  options: MatchScoreOptions = {}
+): MatchScore {
+  const weights = options.weights ?? config.matching.weights;
+
+  const components: MatchBreakdown = {
+    brand: scoreBrand(product.brand, foundProductName),
+    size: scoreSize(product, foundProductName),
+    name: scoreName(product, foundProductName),
+    vector: options.vectorSimilarity !== undefined ? Math.min(1, Math.max(0, options.vectorSimilarity)) : undefined,
+  };
+
+  const breakdown: MatchBreakdown = {};
+  let total = 0;
+  let weightSum = 0;
+
+  for (const key of Object.keys(components) as (keyof MatchBreakdown)[]) {
+    const value = components[key];
+    if (value === undefined) {
+      continue;
+    }
+
+    breakdown[key] = round(value);
+    if (weights[key] > 0) {
+      total += weights[key] * value;
+      weightSum += weights[key];
+    }
+  }
+
+  return { score: weightSum > 0 ? round(total / weightSum) : 0, breakdown };
+}
+
+/**
+ * Whether a match score counts as an exact match
+ */
+export function isExactMatchScore(score: number): boolean {
+  return score >= config.matching.exactMatchThreshold;
+}
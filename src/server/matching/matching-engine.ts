@@ -0,0 +1,32 @@
+import { ProductData } from '../types';
+
+export type ProductMatch = ProductData & {
+  /** Engine-specific relevance; only comparable within one search */
+  score: number;
+  /** Embedding cosine similarity (0..1), when the engine measured it */
+  similarity?: number;
+};
+
+export interface SearchOptions {
+  /** Only return products of this brand */
+  brand?: string;
+  top?: number;
+}
+
+/**
+ * Search index over the products being surveyed, used to match scraped product
+ * names back to them. Higher scores are closer matches.
+ */
+export interface MatchingEngine {
+  /** Implementation name, for logs */
+  readonly name: string;
+  /** Whether the engine can be used (e.g. its credentials are configured) */
+  isAvailable(): boolean;
+  /** Add or replace products, keyed by productId */
+  indexProducts(products: ProductData[]): Promise<void>;
+  /** Remove products by ID, returning how many were removed */
+  removeProducts(productIds: string[]): Promise<number>;
+  /** Best matches first */
+  searchProducts(query: string, options?: SearchOptions): Promise<ProductMatch[]>;
+  clearIndex(): Promise<void>;
+}
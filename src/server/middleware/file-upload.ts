@@ -2,15 +2,24 @@ import multer from 'multer';
 import { Request } from 'express';
 import { AppError } from './error-handler';
 
-// Configure storage (use memory storage for CSV processing)
+// Configure storage (use memory storage for file processing)
 const storage = multer.memoryStorage();
 
-// File filter to accept only CSV files
+const ALLOWED_EXTENSIONS = ['.csv', '.tsv', '.xlsx'];
+
+const ALLOWED_MIME_TYPES = [
+  'text/csv',
+  'text/tab-separated-values',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// File filter to accept only CSV, TSV and XLSX files
 const fileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv')) {
+  const name = file.originalname.toLowerCase();
+  if (ALLOWED_MIME_TYPES.includes(file.mimetype) || ALLOWED_EXTENSIONS.some((extension) => name.endsWith(extension))) {
     cb(null, true);
   } else {
-    cb(new AppError(400, 'Only CSV files are allowed'));
+    cb(new AppError(400, 'Only CSV, TSV and XLSX files are allowed'));
   }
 };
 
@@ -28,3 +37,6 @@ export const uploadFiles = upload.fields([
   { name: 'storesFile', maxCount: 1 },
   { name: 'productsFile', maxCount: 1 },
 ]);
+
+// Export upload middleware for a single file (catalog imports)
+export const uploadFile = upload.single('file');
@@ -1,24 +1,94 @@
 import { Router } from 'express';
-import { uploadFiles } from '../middleware/file-upload';
-import { uploadController } from '../controllers/upload.controller';
-import { scrapeController, getJobStatus, getResults } from '../controllers/scrape.controller';
+import { uploadFiles, uploadFile } from '../middleware/file-upload';
+import { uploadController, previewUploadController } from '../controllers/upload.controller';
+import {
+  scrapeController,
+  getJobStatus,
+  getResults,
+  cancelJob,
+  pauseJob,
+  resumeJob,
+  retryJob,
+} from '../controllers/scrape.controller';
+import { exportResults, exportResultsCsv } from '../controllers/export.controller';
+import { listJobsController, getJobAlerts, deleteJobController } from '../controllers/job.controller';
+import { getProductHistoryController, getResultChanges } from '../controllers/history.controller';
+import { getResultComparison } from '../controllers/comparison.controller';
+import {
+  listSchedulesController,
+  createScheduleController,
+  getScheduleController,
+  updateScheduleController,
+  deleteScheduleController,
+  runScheduleController,
+  getScheduleRunsController,
+} from '../controllers/schedule.controller';
+import {
+  listStoresController,
+  getStoreController,
+  createStoreController,
+  updateStoreController,
+  deleteStoreController,
+  importStoresController,
+  listProductsController,
+  getProductController,
+  createProductController,
+  updateProductController,
+  deleteProductController,
+  importProductsController,
+  createCatalogJobController,
+} from '../controllers/catalog.controller';
 
 const router = Router();
 
 // File upload endpoint
 router.post('/upload', uploadFiles, uploadController);
+router.post('/upload/preview', uploadFiles, previewUploadController);
 
 // Scraping endpoints
 router.post('/scrape', scrapeController);
+router.get('/jobs', listJobsController);
+router.post('/jobs', createCatalogJobController);
 router.get('/jobs/:jobId', getJobStatus);
+router.post('/jobs/:jobId/cancel', cancelJob);
+router.post('/jobs/:jobId/pause', pauseJob);
+router.post('/jobs/:jobId/resume', resumeJob);
+router.post('/jobs/:jobId/retry', retryJob);
+router.get('/jobs/:jobId/alerts', getJobAlerts);
 router.get('/results/:jobId', getResults);
 
-router.get('/results/:jobId/csv', (_req, res) => {
-  res.json({ message: 'Export CSV - to be implemented' });
-});
+router.get('/results/:jobId/csv', exportResultsCsv);
+router.get('/results/:jobId/export', exportResults);
+router.get('/results/:jobId/changes', getResultChanges);
+router.get('/results/:jobId/comparison', getResultComparison);
 
-router.delete('/jobs/:jobId', (_req, res) => {
-  res.json({ message: 'Delete job - to be implemented' });
-});
+// Price history
+router.get('/history/:productId', getProductHistoryController);
+
+router.delete('/jobs/:jobId', deleteJobController);
+
+// Scheduled surveys
+router.get('/schedules', listSchedulesController);
+router.post('/schedules', createScheduleController);
+router.get('/schedules/:scheduleId', getScheduleController);
+router.patch('/schedules/:scheduleId', updateScheduleController);
+router.delete('/schedules/:scheduleId', deleteScheduleController);
+router.post('/schedules/:scheduleId/run', runScheduleController);
+router.get('/schedules/:scheduleId/runs', getScheduleRunsController);
+
+// Saved store and product catalogs (imports before the :id routes)
+router.get('/stores', listStoresController);
+router.post('/stores', createStoreController);
+router.post('/stores/import', uploadFile, importStoresController);
+router.get('/stores/:storeId', getStoreController);
+router.patch('/stores/:storeId', updateStoreController);
+router.delete('/stores/:storeId', deleteStoreController);
+
+router.get('/products', listProductsController);
+router.post('/products', createProductController);
+router.post('/products/import', uploadFile, importProductsController);
+router.get('/products/:productId', getProductController);
+router.patch('/products/:productId', updateProductController);
+router.delete('/products/:productId', deleteProductController);
 
 export default router;
@@ -0,0 +1,131 @@
+import { Page } from 'playwright';
+import { getPageContent } from './browser.service';
+import { analyzePageForSearch, isOpenAIConfigured } from './openai.service';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface SearchTarget {
+  inputSelector: string;
+  submitSelector?: string;
+  source: 'ai' | 'heuristic';
+}
+
+// Common search box patterns, tried in order when AI analysis is unavailable or wrong
+const HEURISTIC_INPUT_SELECTORS = [
+  'input[type="search"]',
+  'form[role="search"] input[type="text"]',
+  'input[name="q"]',
+  'input[name*="search" i]',
+  'input[id*="search" i]',
+  'input[placeholder*="search" i]',
+  'input[aria-label*="search" i]',
+];
+
+/**
+ * Check that a selector resolves to a visible element on the page
+ */
+async function isUsableSelector(page: Page, selector: string | undefined): Promise<boolean> {
+  if (!selector) {
+    return false;
+  }
+
+  try {
+    const element = await page.$(selector);
+    return element ? await element.isVisible() : false;
+  } catch {
+    // Invalid selector syntax (e.g. hallucinated by the model)
+    return false;
+  }
+}
+
+/**
+ * Locate the search box using DOM heuristics
+ */
+async function locateSearchByHeuristics(page: Page): Promise<SearchTarget | null> {
+  for (const selector of HEURISTIC_INPUT_SELECTORS) {
+    if (await isUsableSelector(page, selector)) {
+      return { inputSelector: selector, source: 'heuristic' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Locate the search box on the current page.
+ * Uses Azure OpenAI page analysis when configured, falling back to DOM heuristics.
+ */
+export async function locateSearch(page: Page, storeName: string): Promise<SearchTarget | null> {
+  if (isOpenAIConfigured()) {
+    try {
+      const html = await getPageContent(page);
+      const analysis = await analyzePageForSearch(html, storeName);
+
+      if (await isUsableSelector(page, analysis.searchInputSelector)) {
+        const submitUsable = await isUsableSelector(page, analysis.searchButtonSelector);
+
+        logger.info(`AI located search box for ${storeName}`, {
+          inputSelector: analysis.searchInputSelector,
+          submitSelector: submitUsable ? analysis.searchButtonSelector : undefined,
+        });
+
+        return {
+          inputSelector: analysis.searchInputSelector!,
+          submitSelector: submitUsable ? analysis.searchButtonSelector : undefined,
+          source: 'ai',
+        };
+      }
+
+      logger.warn(`AI search analysis for ${storeName} returned no usable selector, using heuristics`);
+    } catch (error) {
+      logger.warn(`AI search analysis failed for ${storeName}, using heuristics`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const target = await locateSearchByHeuristics(page);
+
+  if (target) {
+    logger.info(`Heuristics located search box for ${storeName}`, { inputSelector: target.inputSelector });
+  } else {
+    logger.warn(`Could not locate a search box for ${storeName}`);
+  }
+
+  return target;
+}
+
+/**
+ * Check whether the search box is still present on the current page
+ */
+export async function isSearchAvailable(page: Page, target: SearchTarget): Promise<boolean> {
+  return isUsableSelector(page, target.inputSelector);
+}
+
+/**
+ * Type a query into the search box and submit it
+ */
+export async function submitSearch(
+  page: Page,
+  target: SearchTarget,
+  query: string,
+  timeout: number = config.scraping.scrapeTimeoutMs
+): Promise<void> {
+  logger.info(`Searching for: ${query}`);
+
+  await page.fill(target.inputSelector, query, { timeout });
+
+  if (target.submitSelector && await isUsableSelector(page, target.submitSelector)) {
+    await page.click(target.submitSelector, { timeout });
+  } else {
+    await page.press(target.inputSelector, 'Enter', { timeout });
+  }
+
+  // Search may trigger a full navigation or a client-side render
+  await page.waitForLoadState('domcontentloaded', { timeout }).catch(() => {
+    logger.warn('Search results page did not finish loading, continuing anyway');
+  });
+  await page.waitForLoadState('networkidle', { timeout: timeout / 2 }).catch(() => {
+    logger.warn('Network did not become idle after search, continuing anyway');
+  });
+}
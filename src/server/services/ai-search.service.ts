@@ -8,6 +8,7 @@ import { config } from '../config';
 import { logger } from '../utils/logger';
 import { ProductData } from '../types';
 import { generateEmbedding } from './openai.service';
+import { cosineSimilarity } from '../matching/match-scorer';
 
 interface ProductDocument extends ProductData {
   id: string; // Azure Search requires 'id' field
@@ -18,6 +19,13 @@ interface ProductDocument extends ProductData {
 let searchClient: SearchClient<ProductDocument> | null = null;
 let indexClient: SearchIndexClient | null = null;
 
+/**
+ * Check whether Azure AI Search credentials are configured
+ */
+export function isSearchConfigured(): boolean {
+  return Boolean(config.azure.search.endpoint && config.azure.search.key);
+}
+
 /**
  * Get Azure AI Search client
  */
@@ -148,11 +156,17 @@ export async function createOrUpdateIndex(): Promise<void> {
 export async function indexProducts(products: ProductData[]): Promise<void> {
   const client = getSearchClient();
 
-  logger.info(`Indexing ${products.length} products...`);
+  // Documents are keyed by productId, so a later product replaces an earlier one with the same ID
+  const unique = new Map(products.map((product) => [product.productId, product]));
+  if (unique.size < products.length) {
+    logger.warn(`Indexing ${products.length - unique.size} products whose productId repeats an earlier one; the last of each is kept`);
+  }
+
+  logger.info(`Indexing ${unique.size} products...`);
 
   const documents: ProductDocument[] = [];
 
-  for (const product of products) {
+  for (const product of unique.values()) {
     try {
       // Generate search text combining all searchable fields
       const searchText = `${product.productName} ${product.brand} ${product.description}`;
@@ -217,7 +231,35 @@ export async function indexProducts(products: ProductData[]): Promise<void> {
 }
 
 /**
- * Search for products using semantic search
+ * Remove products from the search index by product ID
+ */
+export async function removeProducts(productIds: string[]): Promise<number> {
+  if (productIds.length === 0) {
+    return 0;
+  }
+
+  const client = getSearchClient();
+
+  try {
+    const result = await client.deleteDocuments('id', productIds);
+    const succeeded = result.results.filter((r) => r.succeeded).length;
+
+    logger.info('Products removed from index', {
+      requested: productIds.length,
+      succeeded,
+    });
+
+    return succeeded;
+  } catch (error) {
+    logger.error('Failed to remove products from search index', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Search for products using semantic search, with the embedding similarity of each result
  */
 export async function searchProducts(
   query: string,
@@ -225,7 +267,7 @@ export async function searchProducts(
     brand?: string;
     top?: number;
   } = {}
-): Promise<Array<ProductData & { score: number }>> {
+): Promise<Array<ProductData & { score: number; similarity?: number }>> {
   const client = getSearchClient();
   const { brand, top = 5 } = options;
 
@@ -246,12 +288,13 @@ export async function searchProducts(
           },
         ],
       },
-      filter: brand ? `brand eq '${brand}'` : undefined,
+      // OData string literals escape a quote by doubling it, e.g. Vogel''s
+      filter: brand ? `brand eq '${brand.replace(/'/g, "''")}'` : undefined,
       top,
-      select: ['productId', 'productName', 'description', 'brand'],
+      select: ['productId', 'productName', 'description', 'brand', 'embedding'],
     });
 
-    const results: Array<ProductData & { score: number }> = [];
+    const results: Array<ProductData & { score: number; similarity?: number }> = [];
 
     for await (const result of searchResults.results) {
       if (result.document) {
@@ -261,6 +304,7 @@ export async function searchProducts(
           description: result.document.description,
           brand: result.document.brand,
           score: result.score || 0,
+          similarity: result.document.embedding ? cosineSimilarity(queryEmbedding, result.document.embedding) : undefined,
         });
       }
     }
@@ -280,37 +324,6 @@ export async function searchProducts(
   }
 }
 
-/**
- * Find best matching product for a scraped result
- */
-export async function findBestMatch(
-  scrapedProductName: string,
-  brand?: string
-): Promise<(ProductData & { score: number; isExactMatch: boolean }) | null> {
-  const results = await searchProducts(scrapedProductName, { brand, top: 1 });
-
-  if (results.length === 0) {
-    return null;
-  }
-
-  const bestMatch = results[0];
-
-  // Determine if it's an exact match based on score threshold
-  const isExactMatch = bestMatch.score > 0.85; // Adjust threshold as needed
-
-  logger.debug('Best match found', {
-    scrapedProductName,
-    matchedProduct: bestMatch.productName,
-    score: bestMatch.score,
-    isExactMatch,
-  });
-
-  return {
-    ...bestMatch,
-    isExactMatch,
-  };
-}
-
 /**
  * Clear all documents from the index
  */
@@ -0,0 +1,220 @@
+import { getJob, saveJobAlerts } from './job-storage.service';
+import { getPreviousPoint } from './price-history.service';
+import { JobData, PriceAlert, PricePoint, ScrapingResult } from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface AlertOptions {
+  /** Minimum price change, in percent, that raises a rise or drop alert */
+  priceChangePercent: number;
+}
+
+/**
+ * A rule compares a result with the previous run's point for the same product and store
+ */
+type AlertRule = (result: ScrapingResult, previous: PricePoint, options: AlertOptions) => PriceAlert | null;
+
+const OUT_OF_STOCK_PATTERN = /out of stock|sold out|unavailable/i;
+
+/**
+ * Check whether a result or point means the product could not be bought
+ */
+function isUnavailable(entry: { price?: number; availability?: string }): boolean {
+  return entry.price === undefined || OUT_OF_STOCK_PATTERN.test(entry.availability || '');
+}
+
+/**
+ * Build an alert with the fields shared by every rule
+ */
+function createAlert(
+  type: PriceAlert['type'],
+  result: ScrapingResult,
+  previous: PricePoint,
+  message: string
+): PriceAlert {
+  return {
+    type,
+    productId: result.productId,
+    productName: result.productName,
+    storeName: result.storeName,
+    message,
+    previousJobId: previous.jobId,
+    previousPrice: previous.price,
+    price: result.price,
+  };
+}
+
+/**
+ * Price moved up or down by at least the configured percentage
+ */
+const priceChangeRule: AlertRule = (result, previous, options) => {
+  if (result.price === undefined || previous.price === undefined || previous.price <= 0) {
+    return null;
+  }
+
+  const changePercent = Math.round(((result.price - previous.price) / previous.price) * 10000) / 100;
+  if (Math.abs(changePercent) < options.priceChangePercent) {
+    return null;
+  }
+
+  const rise = changePercent > 0;
+  return {
+    ...createAlert(
+      rise ? 'price-rise' : 'price-drop',
+      result,
+      previous,
+      `${result.productName} at ${result.storeName} ${rise ? 'rose' : 'dropped'} ${Math.abs(changePercent)}% `
+        + `from $${previous.price.toFixed(2)} to $${result.price.toFixed(2)}`
+    ),
+    changePercent,
+  };
+};
+
+/**
+ * Product was available last run and is not now
+ */
+const outOfStockRule: AlertRule = (result, previous) => {
+  if (isUnavailable(previous) || !isUnavailable(result)) {
+    return null;
+  }
+
+  return createAlert(
+    'out-of-stock',
+    result,
+    previous,
+    `${result.productName} is no longer available at ${result.storeName}`
+  );
+};
+
+/**
+ * Product is now matched to a replacement it was not matched to last run
+ */
+const newReplacementRule: AlertRule = (result, previous) => {
+  if (result.isExactMatch || !result.foundProductName || result.price === undefined) {
+    return null;
+  }
+
+  if (!previous.isExactMatch && previous.foundProductName === result.foundProductName) {
+    return null;
+  }
+
+  return {
+    ...createAlert(
+      'new-replacement',
+      result,
+      previous,
+      `${result.productName} at ${result.storeName} is now matched to replacement "${result.foundProductName}"`
+    ),
+    foundProductName: result.foundProductName,
+  };
+};
+
+const ALERT_RULES: AlertRule[] = [priceChangeRule, outOfStockRule, newReplacementRule];
+
+/**
+ * Compare a job's results with the previous run of each product and store and collect alerts.
+ * Results that failed to scrape, and products never surveyed before, raise no alerts.
+ */
+export function evaluateAlerts(
+  jobId: string,
+  results: ScrapingResult[],
+  options: AlertOptions = { priceChangePercent: config.alerts.priceChangePercent }
+): PriceAlert[] {
+  const alerts: PriceAlert[] = [];
+
+  for (const result of results) {
+    if (result.errorMessage) {
+      continue;
+    }
+
+    const previous = getPreviousPoint(result.productId, result.storeName, jobId);
+    if (!previous) {
+      continue;
+    }
+
+    for (const rule of ALERT_RULES) {
+      const alert = rule(result, previous, options);
+      if (alert) {
+        alerts.push(alert);
+      }
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Post a job's alerts to the configured webhook.
+ * Resolves false when no webhook is configured.
+ */
+export async function sendAlertWebhook(job: JobData, alerts: PriceAlert[]): Promise<boolean> {
+  const url = config.alerts.webhookUrl;
+  if (!url) {
+    return false;
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      event: 'price-alerts',
+      jobId: job.jobId,
+      jobCreatedAt: job.createdAt,
+      alerts,
+    }),
+    signal: AbortSignal.timeout(config.alerts.webhookTimeoutMs),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+  return true;
+}
+
+/**
+ * Identity of an alert within a job: one alert per type, product and store
+ */
+function alertKey(alert: PriceAlert): string {
+  return `${alert.type}\u0000${alert.storeName}\u0000${alert.productId}`;
+}
+
+/**
+ * Evaluate, store and send the alerts for a finished job.
+ * A retried job is evaluated again, but alerts already sent are not posted twice.
+ * Webhook failures are logged, never thrown, so they cannot fail the job.
+ */
+export async function processJobAlerts(jobId: string): Promise<PriceAlert[]> {
+  const job = getJob(jobId);
+  if (!job) {
+    return [];
+  }
+
+  const sentAt = new Map((job.alerts || [])
+    .filter((alert) => alert.sentAt)
+    .map((alert) => [alertKey(alert), alert.sentAt]));
+
+  const alerts = evaluateAlerts(jobId, job.results || [])
+    .map((alert) => (sentAt.has(alertKey(alert)) ? { ...alert, sentAt: sentAt.get(alertKey(alert)) } : alert));
+  saveJobAlerts(jobId, alerts);
+
+  const unsent = alerts.filter((alert) => !alert.sentAt);
+  logger.info(`Job ${jobId} raised ${alerts.length} price alerts, ${unsent.length} not sent before`);
+
+  if (unsent.length > 0) {
+    try {
+      if (await sendAlertWebhook(job, unsent)) {
+        const now = new Date();
+        unsent.forEach((alert) => {
+          alert.sentAt = now;
+        });
+        saveJobAlerts(jobId, alerts);
+      }
+    } catch (error) {
+      logger.error(`Failed to send price alerts of job ${jobId} to webhook`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return alerts;
+}
@@ -0,0 +1,257 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { getMatchingEngine } from '../matching';
+import { getProductIdsInUse } from './job-storage.service';
+import { CatalogImportResult, CatalogProduct, CatalogStore, ProductData, StoreData } from '../types';
+import { createRecordStore } from '../storage';
+import { storedProductSchema, storedStoreSchema } from '../utils/validation';
+import { logger } from '../utils/logger';
+
+// Catalog entry dates, stored as ISO strings
+const storedEntryDates = {
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+};
+
+const storedCatalogStoreSchema = storedStoreSchema.extend({ storeId: z.string(), ...storedEntryDates });
+const storedCatalogProductSchema = storedProductSchema.extend(storedEntryDates);
+
+// Saved stores and products (in-memory or file-backed, see config.persistence)
+const stores = createRecordStore<CatalogStore>('catalog-stores', (raw) => storedCatalogStoreSchema.parse(raw));
+const products = createRecordStore<CatalogProduct>('catalog-products', (raw) => storedCatalogProductSchema.parse(raw));
+
+/**
+ * Index catalog products in the background, logging failures
+ */
+function indexCatalogProducts(changed: ProductData[]): void {
+  const engine = getMatchingEngine();
+  if (changed.length === 0 || !engine.isAvailable()) {
+    return;
+  }
+
+  engine.indexProducts(changed).catch((error) => {
+    logger.error(`Failed to index ${changed.length} catalog products`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  });
+}
+
+/**
+ * Strip catalog metadata, leaving the data a job needs
+ */
+function toProductData({ productId, productName, description, brand }: ProductData): ProductData {
+  return { productId, productName, description, brand };
+}
+
+/**
+ * List saved stores by name
+ */
+export function listCatalogStores(): CatalogStore[] {
+  return stores.values().sort((a, b) => a.storeName.localeCompare(b.storeName));
+}
+
+/**
+ * Get a saved store by ID
+ */
+export function getCatalogStore(storeId: string): CatalogStore | undefined {
+  return stores.get(storeId);
+}
+
+/**
+ * Find a saved store by name (case-insensitive)
+ */
+export function findCatalogStoreByName(storeName: string): CatalogStore | undefined {
+  const name = storeName.trim().toLowerCase();
+  return stores.values().find((store) => store.storeName.toLowerCase() === name);
+}
+
+/**
+ * Save a new store
+ */
+export function createCatalogStore(data: StoreData): CatalogStore {
+  const now = new Date();
+  const store: CatalogStore = {
+    storeId: randomUUID(),
+    storeName: data.storeName,
+    websiteUrl: data.websiteUrl,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  stores.set(store.storeId, store);
+  logger.info(`Catalog store created: ${store.storeName} (${store.storeId})`);
+  return store;
+}
+
+/**
+ * Update a saved store
+ */
+export function updateCatalogStore(storeId: string, changes: Partial<StoreData>): CatalogStore | undefined {
+  const existing = stores.get(storeId);
+  if (!existing) {
+    return undefined;
+  }
+
+  const store: CatalogStore = {
+    ...existing,
+    storeName: changes.storeName ?? existing.storeName,
+    websiteUrl: changes.websiteUrl ?? existing.websiteUrl,
+    updatedAt: new Date(),
+  };
+
+  stores.set(storeId, store);
+  return store;
+}
+
+/**
+ * Delete a saved store (jobs keep their own copy)
+ */
+export function deleteCatalogStore(storeId: string): boolean {
+  if (!stores.has(storeId)) {
+    return false;
+  }
+
+  stores.delete(storeId);
+  logger.info(`Catalog store deleted: ${storeId}`);
+  return true;
+}
+
+/**
+ * Add or update stores by name
+ */
+export function importCatalogStores(data: StoreData[]): CatalogImportResult {
+  const result: CatalogImportResult = { created: 0, updated: 0 };
+
+  for (const entry of data) {
+    const existing = findCatalogStoreByName(entry.storeName);
+    if (existing) {
+      updateCatalogStore(existing.storeId, entry);
+      result.updated++;
+    } else {
+      createCatalogStore(entry);
+      result.created++;
+    }
+  }
+
+  logger.info(`Imported catalog stores: ${result.created} created, ${result.updated} updated`);
+  return result;
+}
+
+/**
+ * List saved products by ID
+ */
+export function listCatalogProducts(): CatalogProduct[] {
+  return products.values().sort((a, b) => a.productId.localeCompare(b.productId));
+}
+
+/**
+ * Get a saved product by ID
+ */
+export function getCatalogProduct(productId: string): CatalogProduct | undefined {
+  return products.get(productId);
+}
+
+/**
+ * Check whether a product ID belongs to the catalog
+ */
+export function isCatalogProduct(productId: string): boolean {
+  return products.has(productId);
+}
+
+/**
+ * Save a product, replacing any with the same ID, without indexing it
+ */
+function putCatalogProduct(data: ProductData): CatalogProduct {
+  const existing = products.get(data.productId);
+  const now = new Date();
+  const product: CatalogProduct = {
+    ...toProductData(data),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  products.set(product.productId, product);
+  return product;
+}
+
+/**
+ * Save a new product and index it
+ */
+export function createCatalogProduct(data: ProductData): CatalogProduct {
+  const product = putCatalogProduct(data);
+  indexCatalogProducts([toProductData(product)]);
+
+  logger.info(`Catalog product created: ${product.productId}`);
+  return product;
+}
+
+/**
+ * Update a saved product and re-index it
+ */
+export function updateCatalogProduct(
+  productId: string,
+  changes: Partial<Omit<ProductData, 'productId'>>
+): CatalogProduct | undefined {
+  const existing = products.get(productId);
+  if (!existing) {
+    return undefined;
+  }
+
+  const product = putCatalogProduct({
+    productId,
+    productName: changes.productName ?? existing.productName,
+    description: changes.description ?? existing.description,
+    brand: changes.brand ?? existing.brand,
+  });
+  indexCatalogProducts([toProductData(product)]);
+
+  return product;
+}
+
+/**
+ * Delete a saved product, removing it from the search index unless a job still uses it
+ */
+export async function deleteCatalogProduct(productId: string): Promise<boolean> {
+  if (!products.has(productId)) {
+    return false;
+  }
+
+  products.delete(productId);
+  logger.info(`Catalog product deleted: ${productId}`);
+
+  const engine = getMatchingEngine();
+  if (engine.isAvailable() && !getProductIdsInUse().has(productId)) {
+    try {
+      await engine.removeProducts([productId]);
+    } catch (error) {
+      logger.error(`Failed to remove catalog product ${productId} from index`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Add or update products by ID and index them in one batch.
+ * When rows share a productId, the last one wins.
+ */
+export function importCatalogProducts(data: ProductData[]): CatalogImportResult {
+  const result: CatalogImportResult = { created: 0, updated: 0 };
+  const entries = Array.from(new Map(data.map((entry) => [entry.productId, entry])).values());
+
+  for (const entry of entries) {
+    if (products.has(entry.productId)) {
+      result.updated++;
+    } else {
+      result.created++;
+    }
+    putCatalogProduct(entry);
+  }
+
+  indexCatalogProducts(entries.map(toProductData));
+
+  logger.info(`Imported catalog products: ${result.created} created, ${result.updated} updated`);
+  return result;
+}
@@ -0,0 +1,172 @@
+import {
+  ComparisonCell,
+  ComparisonRow,
+  JobData,
+  PriceComparison,
+  ReplacementMode,
+  ScrapingResult,
+  StoreBasket,
+} from '../types';
+
+/**
+ * Round a currency amount to cents
+ */
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Middle value of a sorted list, averaging the two middle values of an even list
+ */
+function median(sorted: number[]): number {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : roundCents((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Build a comparison cell, dropping the price of a replacement in exclude mode
+ */
+function toCell(result: ScrapingResult, mode: ReplacementMode): ComparisonCell {
+  const excluded = mode === 'exclude' && !result.isExactMatch;
+
+  return {
+    price: excluded ? undefined : result.price,
+    unitPrice: excluded ? undefined : result.unitPrice,
+    unit: excluded ? undefined : result.unit,
+    foundProductName: result.foundProductName,
+    isExactMatch: result.isExactMatch,
+    isCheapest: false,
+    errorMessage: result.errorMessage,
+  };
+}
+
+/**
+ * Pivot a product's results into one row, marking the cheapest stores and the price spread
+ */
+function buildRow(product: ScrapingResult[], mode: ReplacementMode): ComparisonRow {
+  const [first] = product;
+  const cells: Record<string, ComparisonCell> = {};
+
+  for (const result of product) {
+    cells[result.storeName] = toCell(result, mode);
+  }
+
+  const priced = Object.entries(cells).filter(([, cell]) => cell.price !== undefined);
+  const prices = priced.map(([, cell]) => cell.price!).sort((a, b) => a - b);
+
+  const row: ComparisonRow = {
+    productId: first.productId,
+    productName: first.productName,
+    brand: first.brand,
+    cells,
+    cheapestStores: [],
+  };
+
+  if (prices.length === 0) {
+    return row;
+  }
+
+  row.minPrice = prices[0];
+  row.maxPrice = prices[prices.length - 1];
+  row.medianPrice = median(prices);
+
+  for (const [storeName, cell] of priced) {
+    if (cell.price === row.minPrice) {
+      cell.isCheapest = true;
+      row.cheapestStores.push(storeName);
+    }
+  }
+
+  if (mode === 'flag' && priced.every(([, cell]) => !cell.isExactMatch)) {
+    row.replacementOnly = true;
+  }
+
+  return row;
+}
+
+/**
+ * Total each store's basket, both over everything it priced and over the
+ * products priced at every store
+ */
+function buildBaskets(stores: string[], rows: ComparisonRow[]): { baskets: StoreBasket[]; comparableProducts: number } {
+  const comparable = rows.filter((row) => stores.every((store) => row.cells[store]?.price !== undefined));
+
+  const baskets = stores.map((storeName): StoreBasket => {
+    const prices = rows
+      .map((row) => row.cells[storeName]?.price)
+      .filter((price): price is number => price !== undefined);
+
+    return {
+      storeName,
+      total: roundCents(prices.reduce((sum, price) => sum + price, 0)),
+      pricedProducts: prices.length,
+      missingProducts: rows.length - prices.length,
+      comparableTotal: comparable.length > 0
+        ? roundCents(comparable.reduce((sum, row) => sum + row.cells[storeName].price!, 0))
+        : undefined,
+      isCheapest: false,
+    };
+  });
+
+  const totals = baskets
+    .map((basket) => basket.comparableTotal)
+    .filter((total): total is number => total !== undefined);
+
+  if (totals.length > 0) {
+    const cheapest = Math.min(...totals);
+    baskets.forEach((basket) => {
+      basket.isCheapest = basket.comparableTotal === cheapest;
+    });
+  }
+
+  return { baskets, comparableProducts: comparable.length };
+}
+
+/**
+ * Pivot a job's results into a product × store price matrix with basket totals.
+ * Stores and products keep the order of the job's input lists.
+ */
+export function buildComparison(job: JobData, mode: ReplacementMode): PriceComparison {
+  const results = job.results || [];
+
+  const byProduct = new Map<string, ScrapingResult[]>();
+  for (const result of results) {
+    const product = byProduct.get(result.productId) || [];
+    product.push(result);
+    byProduct.set(result.productId, product);
+  }
+
+  // Jobs created before store names and product IDs had to be unique may repeat them;
+  // their results were keyed by store and product, so each gets one column or row
+  const stores = [...new Set(job.stores.map((store) => store.storeName))]
+    .filter((storeName) => results.some((result) => result.storeName === storeName));
+  const productIds = new Set(job.products.map((product) => product.productId));
+
+  const rows: ComparisonRow[] = [];
+  const excludedProductIds: string[] = [];
+
+  for (const productId of productIds) {
+    const product = byProduct.get(productId);
+    if (!product) {
+      continue;
+    }
+
+    // A product whose only prices are replacements has nothing left to compare
+    const found = product.filter((result) => result.price !== undefined);
+    if (mode === 'exclude' && found.length > 0 && found.every((result) => !result.isExactMatch)) {
+      excludedProductIds.push(productId);
+      continue;
+    }
+
+    rows.push(buildRow(product, mode));
+  }
+
+  return {
+    jobId: job.jobId,
+    replacements: mode,
+    stores,
+    products: rows,
+    excludedProductIds,
+    ...buildBaskets(stores, rows),
+  };
+}
@@ -1,239 +1,509 @@
 import { parse } from 'csv-parse/sync';
-import { StoreData, ProductData, ValidationError } from '../types';
+import {
+  StoreData,
+  ProductData,
+  ValidationError,
+  ColumnMapping,
+  DuplicatePolicy,
+  FilePreview,
+  UploadField,
+  UploadFileKind,
+  UploadReport,
+} from '../types';
+import { applyDuplicatePolicy, findDuplicateProducts } from './duplicate.service';
+import { listWorkbookSheets, readWorkbookSheet } from '../utils/xlsx';
 import { logger } from '../utils/logger';
 
-// Required column headers (case-insensitive matching)
-const STORE_HEADERS = ['StoreName', 'Website URL'];
-const PRODUCT_HEADERS = ['ProductId', 'ProductName', 'Description', 'Brand'];
+export interface UploadFileOptions {
+  /** Original file name, used to recognise .tsv files */
+  filename?: string;
+  /** Worksheet to read from an XLSX file (default: the first sheet) */
+  sheet?: string;
+  /** Confirmed source column per field; unmapped fields fall back to the suggested column */
+  mapping?: ColumnMapping;
+  /** Resolve product rows sharing a ProductId (default: keep the first row) */
+  duplicates?: DuplicatePolicy;
+}
+
+export interface ParsedFile<T> {
+  data: T[];
+  /** Source row of each entry in data */
+  rows: number[];
+  errors: ValidationError[];
+  /** Problems that do not stop a row being accepted */
+  warnings: ValidationError[];
+  /** Rows left out of data because they had errors */
+  skippedRows: number[];
+  /** Columns the data was read from */
+  mapping: ColumnMapping;
+}
+
+export interface TableRow {
+  /** 1-based row number in the file, for error messages */
+  row: number;
+  values: string[];
+}
+
+export interface Table {
+  headers: string[];
+  rows: TableRow[];
+}
+
+interface FieldSpec<T> {
+  key: keyof T & string;
+  /** Required column header (case-insensitive matching) */
+  header: string;
+  /** Other headers suggested for the field, most likely first */
+  synonyms: string[];
+  url?: boolean;
+  /** Warn when a value repeats an earlier row */
+  unique?: boolean;
+  /** Leave out rows repeating an earlier value, keeping the first, since job results are keyed by it */
+  identifying?: boolean;
+}
+
+const STORE_FIELDS: FieldSpec<StoreData>[] = [
+  { key: 'storeName', header: 'StoreName', synonyms: ['Store', 'Retailer', 'Shop', 'Name'], identifying: true },
+  {
+    key: 'websiteUrl',
+    header: 'Website URL',
+    synonyms: ['URL', 'Website', 'Web Site', 'Site', 'Link', 'Homepage'],
+    url: true,
+    unique: true,
+  },
+];
+
+const PRODUCT_FIELDS: FieldSpec<ProductData>[] = [
+  {
+    key: 'productId',
+    // Duplicate IDs are reported by findDuplicateProducts, along with near-duplicates
+    header: 'ProductId',
+    synonyms: ['Product ID', 'SKU', 'Item ID', 'Item Code', 'Product Code', 'Article Number', 'Code', 'ID', 'Barcode', 'EAN', 'GTIN', 'UPC'],
+  },
+  { key: 'productName', header: 'ProductName', synonyms: ['Item', 'Item Name', 'Product', 'Title', 'Name'] },
+  { key: 'description', header: 'Description', synonyms: ['Desc', 'Item Description', 'Product Description', 'Details'] },
+  { key: 'brand', header: 'Brand', synonyms: ['Manufacturer', 'Brand Name', 'Make', 'Vendor', 'Supplier'] },
+];
+
+// Data rows returned by a preview
+const PREVIEW_ROWS = 5;
+
+// Top-level domains that never resolve on the public internet
+const RESERVED_TLDS = ['localhost', 'local', 'test', 'example', 'invalid', 'internal', 'lan'];
+
+// Delimiters tried when sniffing a text file, in order of preference on a tie
+const DELIMITERS = [',', ';', '\t'];
 
 /**
- * Normalize header names for comparison (case-insensitive, remove spaces)
+ * Normalize header names for comparison (case-insensitive, ignoring spaces and punctuation)
  */
 function normalizeHeader(header: string): string {
-  return header.toLowerCase().replace(/\s+/g, '');
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find actual header name that matches required header (case-insensitive)
+ */
+function findHeaderIndex(actualHeaders: string[], requiredHeader: string): number {
+  const normalized = normalizeHeader(requiredHeader);
+  return actualHeaders.findIndex(h => normalizeHeader(h) === normalized);
+}
+
+/**
+ * Suggest a source column for each field: exact header matches first, then synonyms.
+ * Each column is suggested for one field at most.
+ */
+function suggestMapping<T>(headers: string[], fields: FieldSpec<T>[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  const assign = (field: FieldSpec<T>, candidates: string[]) => {
+    for (const candidate of candidates) {
+      const index = headers.findIndex((h, i) => !used.has(i) && normalizeHeader(h) === normalizeHeader(candidate));
+      if (index !== -1) {
+        mapping[field.key] = headers[index];
+        used.add(index);
+        return;
+      }
+    }
+  };
+
+  fields.forEach((field) => assign(field, [field.header]));
+  fields.filter((field) => !mapping[field.key]).forEach((field) => assign(field, field.synonyms));
+
+  return mapping;
 }
 
 /**
- * Check if headers match (case-insensitive, flexible spacing)
+ * Work out the column index of each field from a confirmed mapping and the suggestions
  */
-function headersMatch(actual: string[], required: string[]): { match: boolean; missing: string[] } {
-  const normalizedActual = actual.map(normalizeHeader);
-  const missing: string[] = [];
+function resolveColumns<T>(
+  headers: string[],
+  fields: FieldSpec<T>[],
+  confirmed: ColumnMapping = {}
+): { indexes: number[]; mapping: ColumnMapping; errors: ValidationError[] } {
+  const suggested = suggestMapping(headers, fields);
+  const errors: ValidationError[] = [];
+  const mapping: ColumnMapping = {};
+
+  const unknown = Object.keys(confirmed).filter((key) => !fields.some((field) => field.key === key));
+  if (unknown.length > 0) {
+    errors.push({ row: 0, field: 'mapping', message: `Unknown fields in column mapping: ${unknown.join(', ')}` });
+  }
 
-  for (const requiredHeader of required) {
-    const normalized = normalizeHeader(requiredHeader);
-    if (!normalizedActual.includes(normalized)) {
-      missing.push(requiredHeader);
+  const indexes = fields.map((field) => {
+    const header = confirmed[field.key] ?? suggested[field.key];
+    const index = header !== undefined ? findHeaderIndex(headers, header) : -1;
+
+    if (confirmed[field.key] !== undefined && index === -1) {
+      errors.push({
+        row: 0,
+        field: 'mapping',
+        message: `Column "${confirmed[field.key]}" mapped to ${field.header} was not found. Found: ${headers.join(', ')}`,
+      });
+    } else if (index !== -1) {
+      mapping[field.key] = headers[index];
     }
+
+    return index;
+  });
+
+  const missing = fields.filter((field, i) => indexes[i] === -1 && confirmed[field.key] === undefined);
+  if (missing.length > 0) {
+    errors.push({
+      row: 0,
+      field: 'headers',
+      message: `Missing required columns: ${missing.map((field) => field.header).join(', ')}. Found: ${headers.join(', ')}`,
+    });
   }
 
-  return { match: missing.length === 0, missing };
+  return { indexes, mapping, errors };
 }
 
 /**
- * Find actual header name that matches required header (case-insensitive)
+ * Check whether a buffer is a ZIP package (XLSX files are)
  */
-function findMatchingHeader(actualHeaders: string[], requiredHeader: string): string | undefined {
-  const normalized = normalizeHeader(requiredHeader);
-  return actualHeaders.find(h => normalizeHeader(h) === normalized);
+function isZip(fileBuffer: Buffer): boolean {
+  return fileBuffer.length >= 4 && fileBuffer.readUInt32LE(0) === 0x04034b50;
 }
 
 /**
- * Parse stores CSV file
+ * Count occurrences of a character outside double quotes
  */
-export async function parseStoresCSV(
-  fileBuffer: Buffer
-): Promise<{ data: StoreData[]; errors: ValidationError[] }> {
-  const errors: ValidationError[] = [];
-  const data: StoreData[] = [];
+function countUnquoted(line: string, char: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const c of line) {
+    if (c === '"') {
+      quoted = !quoted;
+    } else if (c === char && !quoted) {
+      count++;
+    }
+  }
+  return count;
+}
 
-  try {
-    const records = parse(fileBuffer, {
-      columns: true,
+/**
+ * Pick the delimiter of a text file from its header line: comma, semicolon or tab
+ */
+export function detectDelimiter(text: string): string {
+  const header = text.replace(/^\uFEFF/, '').split(/\r?\n/).find((line) => line.trim() !== '') || '';
+
+  let best = DELIMITERS[0];
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = countUnquoted(header, delimiter);
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Read an uploaded CSV, TSV or XLSX file into a header row and data rows
+ */
+export function readTable(fileBuffer: Buffer, options: UploadFileOptions = {}): Table {
+  let rows: TableRow[];
+
+  if (isZip(fileBuffer)) {
+    rows = readWorkbookSheet(fileBuffer, options.sheet);
+  } else {
+    const text = fileBuffer.toString('utf8');
+    const delimiter = options.filename?.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(text);
+
+    // Values are trimmed during validation, so whitespace-only values can be reported
+    const records: Array<{ record: string[]; info: { lines: number } }> = parse(fileBuffer, {
+      delimiter,
       skip_empty_lines: true,
-      trim: true,
       bom: true, // Handle BOM (Byte Order Mark) in UTF-8 files
+      info: true,
     });
 
-    // Validate headers
-    if (records.length > 0) {
-      const headers = Object.keys(records[0]);
-      const headerCheck = headersMatch(headers, STORE_HEADERS);
+    // Rows are numbered by the file line they start on, counting blank lines; info.lines
+    // is the line a record ends on, later than its start when a quoted value spans lines
+    rows = records
+      .map(({ record, info }) => ({
+        row: info.lines - record.reduce((count, value) => count + (value.match(/\n/g)?.length ?? 0), 0),
+        values: record,
+      }))
+      .filter(({ values }) => values.some((value) => value.trim() !== ''));
+  }
 
-      if (!headerCheck.match) {
-        errors.push({
-          row: 0,
-          field: 'headers',
-          message: `Missing required columns: ${headerCheck.missing.join(', ')}. Found: ${headers.join(', ')}`,
-        });
-        return { data: [], errors };
-      }
-    }
+  const [header, ...data] = rows;
+  return { headers: header?.values.map((value) => value.trim()) || [], rows: data };
+}
+
+/**
+ * Match the table's columns to the required fields and validate each row
+ */
+function validateRecords<T>(
+  table: Table,
+  fields: FieldSpec<T>[],
+  confirmed?: ColumnMapping
+): ParsedFile<T> {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const skippedRows: number[] = [];
+  const data: T[] = [];
+  const rows: number[] = [];
 
-    // Find actual header names (case-insensitive)
-    const headers = records.length > 0 ? Object.keys(records[0]) : [];
-    const storeNameHeader = findMatchingHeader(headers, 'StoreName');
-    const websiteUrlHeader = findMatchingHeader(headers, 'Website URL');
+  if (table.rows.length === 0) {
+    return { data, rows, errors, warnings, skippedRows, mapping: {} };
+  }
 
-    // Parse and validate each row
-    records.forEach((record: any, index: number) => {
-      const rowNum = index + 2; // +2 because index is 0-based and header is row 1
+  // Validate headers
+  const { indexes, mapping, errors: columnErrors } = resolveColumns(table.headers, fields, confirmed);
+  if (columnErrors.length > 0) {
+    return { data: [], rows, errors: columnErrors, warnings, skippedRows, mapping };
+  }
 
-      const storeName = storeNameHeader ? record[storeNameHeader] : '';
-      const websiteUrl = websiteUrlHeader ? record[websiteUrlHeader] : '';
+  // First accepted row of each unique field value, keyed by field
+  const seen = new Map<string, Map<string, number>>(fields.map((field) => [field.key, new Map()]));
 
-      // Validate StoreName
-      if (!storeName || storeName.trim() === '') {
-        errors.push({
-          row: rowNum,
-          field: 'StoreName',
-          message: 'StoreName is required',
-        });
+  // Parse and validate each row
+  for (const { row, values } of table.rows) {
+    const rowErrors: ValidationError[] = [];
+    const record: Record<string, string> = {};
+
+    values.forEach((value, i) => {
+      if (value !== '' && value.trim() === '') {
+        warnings.push({ row, field: table.headers[i] || `Column ${i + 1}`, message: 'Value contains only whitespace' });
       }
+    });
 
-      // Validate Website URL
-      if (!websiteUrl || websiteUrl.trim() === '') {
-        errors.push({
-          row: rowNum,
-          field: 'Website URL',
-          message: 'Website URL is required',
-        });
-      } else if (!isValidUrl(websiteUrl)) {
-        errors.push({
-          row: rowNum,
-          field: 'Website URL',
-          message: 'Website URL must be a valid URL (including http:// or https://)',
-        });
+    fields.forEach((field, i) => {
+      const value = (values[indexes[i]] || '').trim();
+      record[field.key] = value;
+
+      if (value !== '' && field.url && isValidUrl(value) && !looksReachable(value)) {
+        warnings.push({ row, field: field.header, message: `${field.header} "${value}" does not look publicly reachable` });
       }
 
-      // Add valid store data
-      if (storeName && websiteUrl && isValidUrl(websiteUrl)) {
-        data.push({
-          storeName: storeName.trim(),
-          websiteUrl: websiteUrl.trim(),
+      if (value === '') {
+        rowErrors.push({ row, field: field.header, message: `${field.header} is required` });
+      } else if (field.url && !isValidUrl(value)) {
+        rowErrors.push({
+          row,
+          field: field.header,
+          message: `${field.header} must be a valid URL (including http:// or https://)`,
         });
       }
     });
 
-    logger.info(`Parsed stores CSV: ${data.length} valid stores, ${errors.length} errors`);
-    return { data, errors };
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      skippedRows.push(row);
+      continue;
+    }
+
+    const repeated = fields
+      .filter((field) => field.identifying)
+      .map((field) => ({ field, firstRow: seen.get(field.key)!.get(record[field.key]) }))
+      .find(({ firstRow }) => firstRow !== undefined);
+    if (repeated) {
+      warnings.push({
+        row,
+        field: repeated.field.header,
+        message: `Row skipped; ${repeated.field.header} "${record[repeated.field.key]}" is kept from row ${repeated.firstRow}`,
+      });
+      continue;
+    }
+
+    // Duplicates are reported against the first accepted row
+    for (const field of fields.filter((candidate) => candidate.unique || candidate.identifying)) {
+      const value = record[field.key];
+      const key = field.url ? normalizeUrl(value) : value;
+      const firstRow = seen.get(field.key)!.get(key);
+      if (firstRow !== undefined) {
+        warnings.push({ row, field: field.header, message: `Duplicate ${field.header} "${value}" (first seen on row ${firstRow})` });
+      } else {
+        seen.get(field.key)!.set(key, row);
+      }
+    }
+
+    data.push(record as T);
+    rows.push(row);
+  }
+
+  return { data, rows, errors, warnings, skippedRows, mapping };
+}
+
+/**
+ * Read and validate an uploaded file against a set of required fields
+ */
+function parseRecordsFile<T>(
+  fileBuffer: Buffer,
+  options: UploadFileOptions,
+  fields: FieldSpec<T>[],
+  label: string
+): ParsedFile<T> {
+  try {
+    const parsed = validateRecords(readTable(fileBuffer, options), fields, options.mapping);
+    logger.info(`Parsed ${label} file: ${parsed.data.length} valid ${label}, ${parsed.errors.length} errors`);
+    return parsed;
   } catch (error) {
-    logger.error('Error parsing stores CSV:', error);
-    errors.push({
-      row: 0,
-      field: 'file',
-      message: `Failed to parse CSV: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    });
-    return { data: [], errors };
+    logger.error(`Error parsing ${label} file:`, error);
+    return {
+      mapping: {},
+      warnings: [],
+      skippedRows: [],
+      data: [],
+      rows: [],
+      errors: [{
+        row: 0,
+        field: 'file',
+        message: `Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }],
+    };
   }
 }
 
 /**
- * Parse products CSV file
+ * Parse a stores file (CSV, TSV or XLSX)
  */
-export async function parseProductsCSV(
-  fileBuffer: Buffer
-): Promise<{ data: ProductData[]; errors: ValidationError[] }> {
-  const errors: ValidationError[] = [];
-  const data: ProductData[] = [];
+export async function parseStoresFile(
+  fileBuffer: Buffer,
+  options: UploadFileOptions = {}
+): Promise<ParsedFile<StoreData>> {
+  return parseRecordsFile(fileBuffer, options, STORE_FIELDS, 'stores');
+}
 
-  try {
-    const records = parse(fileBuffer, {
-      columns: true,
-      skip_empty_lines: true,
-      trim: true,
-      bom: true, // Handle BOM (Byte Order Mark) in UTF-8 files
-    });
+/**
+ * Parse a products file (CSV, TSV or XLSX), warning about duplicate and
+ * near-duplicate products and leaving one product per ProductId
+ */
+export async function parseProductsFile(
+  fileBuffer: Buffer,
+  options: UploadFileOptions = {}
+): Promise<ParsedFile<ProductData>> {
+  const parsed = parseRecordsFile(fileBuffer, options, PRODUCT_FIELDS, 'products');
+  parsed.warnings.push(...findDuplicateProducts(parsed.data, parsed.rows));
 
-    // Validate headers
-    if (records.length > 0) {
-      const headers = Object.keys(records[0]);
-      const headerCheck = headersMatch(headers, PRODUCT_HEADERS);
+  const resolved = applyDuplicatePolicy(parsed.data, parsed.rows, options.duplicates ?? 'keep-first');
+  parsed.data = resolved.products;
+  parsed.rows = resolved.rows;
+  parsed.warnings.push(...resolved.warnings);
 
-      if (!headerCheck.match) {
-        errors.push({
-          row: 0,
-          field: 'headers',
-          message: `Missing required columns: ${headerCheck.missing.join(', ')}. Found: ${headers.join(', ')}`,
-        });
-        return { data: [], errors };
-      }
-    }
+  parsed.warnings.sort((a, b) => a.row - b.row);
+  return parsed;
+}
 
-    // Find actual header names (case-insensitive)
-    const headers = records.length > 0 ? Object.keys(records[0]) : [];
-    const productIdHeader = findMatchingHeader(headers, 'ProductId');
-    const productNameHeader = findMatchingHeader(headers, 'ProductName');
-    const descriptionHeader = findMatchingHeader(headers, 'Description');
-    const brandHeader = findMatchingHeader(headers, 'Brand');
-
-    // Parse and validate each row
-    records.forEach((record: any, index: number) => {
-      const rowNum = index + 2; // +2 because index is 0-based and header is row 1
-
-      const productId = productIdHeader ? record[productIdHeader] : '';
-      const productName = productNameHeader ? record[productNameHeader] : '';
-      const description = descriptionHeader ? record[descriptionHeader] : '';
-      const brand = brandHeader ? record[brandHeader] : '';
-
-      // Validate ProductId
-      if (!productId || productId.trim() === '') {
-        errors.push({
-          row: rowNum,
-          field: 'ProductId',
-          message: 'ProductId is required',
-        });
-      }
+/**
+ * Describe a file's columns and first rows, with a suggested column for each field.
+ * Throws if the file cannot be read.
+ */
+function previewFile<T>(fileBuffer: Buffer, options: UploadFileOptions, fields: FieldSpec<T>[]): FilePreview {
+  const table = readTable(fileBuffer, options);
+  const sheets = isZip(fileBuffer) ? listWorkbookSheets(fileBuffer) : undefined;
 
-      // Validate ProductName
-      if (!productName || productName.trim() === '') {
-        errors.push({
-          row: rowNum,
-          field: 'ProductName',
-          message: 'ProductName is required',
-        });
-      }
+  return {
+    headers: table.headers,
+    sampleRows: table.rows.slice(0, PREVIEW_ROWS).map((row) => row.values),
+    totalRows: table.rows.length,
+    fields: fields.map((field): UploadField => ({ key: field.key, header: field.header, required: true })),
+    suggestedMapping: suggestMapping(table.headers, fields),
+    sheets,
+    sheet: sheets ? options.sheet || sheets[0] : undefined,
+  };
+}
 
-      // Validate Description
-      if (!description || description.trim() === '') {
-        errors.push({
-          row: rowNum,
-          field: 'Description',
-          message: 'Description is required',
-        });
-      }
+/**
+ * Preview a stores file for column mapping
+ */
+export function previewStoresFile(fileBuffer: Buffer, options: UploadFileOptions = {}): FilePreview {
+  return previewFile(fileBuffer, options, STORE_FIELDS);
+}
 
-      // Validate Brand
-      if (!brand || brand.trim() === '') {
-        errors.push({
-          row: rowNum,
-          field: 'Brand',
-          message: 'Brand is required',
-        });
-      }
+/**
+ * Preview a products file for column mapping
+ */
+export function previewProductsFile(fileBuffer: Buffer, options: UploadFileOptions = {}): FilePreview {
+  return previewFile(fileBuffer, options, PRODUCT_FIELDS);
+}
 
-      // Add valid product data
-      if (productId && productName && description && brand) {
-        data.push({
-          productId: productId.trim(),
-          productName: productName.trim(),
-          description: description.trim(),
-          brand: brand.trim(),
-        });
-      }
-    });
+/**
+ * Combine the validation of an upload's stores and products files into one report
+ */
+export function buildUploadReport(
+  mode: UploadReport['mode'],
+  files: Record<UploadFileKind, ParsedFile<unknown>>,
+  duplicates?: DuplicatePolicy
+): UploadReport {
+  const report: UploadReport = {
+    mode,
+    duplicates,
+    accepted: { stores: files.stores.data.length, products: files.products.data.length },
+    skippedRows: [],
+    warnings: [],
+    errors: [],
+  };
 
-    logger.info(`Parsed products CSV: ${data.length} valid products, ${errors.length} errors`);
-    return { data, errors };
-  } catch (error) {
-    logger.error('Error parsing products CSV:', error);
-    errors.push({
-      row: 0,
-      field: 'file',
-      message: `Failed to parse CSV: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    });
-    return { data: [], errors };
+  for (const file of ['stores', 'products'] as const) {
+    const parsed = files[file];
+    report.skippedRows.push(...parsed.skippedRows.map((row) => ({ file, row })));
+    report.warnings.push(...parsed.warnings.map((issue) => ({ ...issue, file, severity: 'warning' as const })));
+    report.errors.push(...parsed.errors.map((issue) => ({ ...issue, file, severity: 'error' as const })));
+  }
+
+  return report;
+}
+
+/**
+ * Compare URLs ignoring case of the host, "www." and a trailing slash
+ */
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  return `${host}${parsed.port ? `:${parsed.port}` : ''}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+}
+
+/**
+ * Heuristic check that a URL's host could be a public website:
+ * a dotted name outside reserved domains, or a public IPv4 address
+ */
+function looksReachable(url: string): boolean {
+  const host = new URL(url).hostname.toLowerCase();
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    const isPrivate = a === 10 || a === 127 || a === 0 || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+    return !isPrivate;
   }
+
+  if (host.startsWith('[')) {
+    // IPv6 literals are rarely used for store websites
+    return false;
+  }
+
+  const labels = host.split('.');
+  const tld = labels[labels.length - 1];
+  return labels.length > 1 && tld.length >= 2 && !RESERVED_TLDS.includes(tld)
+    && !/^example\.(com|net|org)$/.test(labels.slice(-2).join('.'));
 }
 
 /**
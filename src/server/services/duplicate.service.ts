@@ -0,0 +1,163 @@
+import { DuplicatePolicy, ProductData, ValidationError } from '../types';
+import { parsePackSize } from '../utils/pack-size';
+
+export interface DuplicateResolution {
+  products: ProductData[];
+  /** Source row of each product kept */
+  rows: number[];
+  /** One note per row folded into another */
+  warnings: ValidationError[];
+}
+
+// Words that describe the size rather than the product, ignored when comparing names
+const SIZE_WORDS = new Set([
+  'x', 'ml', 'l', 'ltr', 'litre', 'litres', 'liter', 'liters', 'g', 'gm', 'gram', 'grams', 'kg', 'kgs',
+  'pk', 'pack', 'of', 'each', 'ea',
+]);
+
+const COMPARED_FIELDS: Array<{ key: keyof ProductData; header: string }> = [
+  { key: 'productName', header: 'ProductName' },
+  { key: 'description', header: 'Description' },
+  { key: 'brand', header: 'Brand' },
+];
+
+/**
+ * Lowercase words of a text, without accents or punctuation
+ */
+function words(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word !== '');
+}
+
+/**
+ * Key shared by products with the same normalised name, brand and size, e.g.
+ * "Coca-Cola 6x330ml" and "coca cola 6 x 330 ml" from Coca-Cola.
+ * Word order and brand words in the name are ignored.
+ */
+export function nearDuplicateKey(product: ProductData): string {
+  const brand = words(product.brand);
+  const name = [...new Set(words(product.productName)
+    .filter((word) => !/\d/.test(word) && !SIZE_WORDS.has(word) && !brand.includes(word)))]
+    .sort();
+
+  const size = parsePackSize(product.productName) ?? parsePackSize(product.description);
+  const sizeKey = size ? `${size.count}x${Math.round(size.quantity * 1000) / 1000}${size.unit}` : '';
+
+  return `${brand.join(' ')}|${name.join(' ')}|${sizeKey}`;
+}
+
+/**
+ * Fields whose values differ between two rows with the same ProductId
+ */
+function differingFields(first: ProductData, other: ProductData): string[] {
+  return COMPARED_FIELDS
+    .filter(({ key }) => first[key] !== other[key])
+    .map(({ header }) => header);
+}
+
+/**
+ * Report rows that repeat an earlier ProductId, and rows that look like the same
+ * product as an earlier row under a different ProductId. Each is reported against
+ * the first row it repeats.
+ */
+export function findDuplicateProducts(products: ProductData[], rows: number[]): ValidationError[] {
+  const warnings: ValidationError[] = [];
+  const byId = new Map<string, number>();
+  const byKey = new Map<string, number>();
+
+  products.forEach((product, i) => {
+    const row = rows[i];
+    const first = byId.get(product.productId);
+
+    if (first !== undefined) {
+      const differing = differingFields(products[first], product);
+      warnings.push({
+        row,
+        field: 'ProductId',
+        message: differing.length === 0
+          ? `Duplicate ProductId "${product.productId}" (repeats row ${rows[first]})`
+          : `Duplicate ProductId "${product.productId}" (first seen on row ${rows[first]}) with a different `
+            + `${differing.join(', ')}; only one of the rows can be searched`,
+      });
+      return;
+    }
+    byId.set(product.productId, i);
+
+    const key = nearDuplicateKey(product);
+    const similar = byKey.get(key);
+    if (similar !== undefined) {
+      warnings.push({
+        row,
+        field: 'ProductName',
+        message: `Possible duplicate of row ${rows[similar]} (ProductId "${products[similar].productId}"): `
+          + 'same name, brand and size',
+      });
+    } else {
+      byKey.set(key, i);
+    }
+  });
+
+  return warnings;
+}
+
+/**
+ * Combine rows sharing a ProductId: the first row's name and brand, and each
+ * distinct description
+ */
+function mergeProducts(first: ProductData, other: ProductData): ProductData {
+  const descriptions = first.description.split(' / ');
+  return {
+    ...first,
+    description: descriptions.includes(other.description)
+      ? first.description
+      : [...descriptions, other.description].join(' / '),
+  };
+}
+
+/**
+ * Leave one product per ProductId, so no row silently overwrites another in the
+ * search index. Products keep the position of the first row with their ID.
+ */
+export function applyDuplicatePolicy(
+  products: ProductData[],
+  rows: number[],
+  policy: DuplicatePolicy
+): DuplicateResolution {
+  const kept: ProductData[] = [];
+  const keptRows: number[] = [];
+  const warnings: ValidationError[] = [];
+  const index = new Map<string, number>();
+
+  products.forEach((product, i) => {
+    const row = rows[i];
+    const existing = index.get(product.productId);
+
+    if (existing === undefined) {
+      index.set(product.productId, kept.length);
+      kept.push(product);
+      keptRows.push(row);
+      return;
+    }
+
+    const firstRow = keptRows[existing];
+    let message: string;
+    if (policy === 'keep-first') {
+      message = `Row skipped; ProductId "${product.productId}" is kept from row ${firstRow}`;
+    } else if (policy === 'keep-last') {
+      kept[existing] = product;
+      keptRows[existing] = row;
+      message = `Row replaces row ${firstRow} with the same ProductId "${product.productId}"`;
+    } else {
+      kept[existing] = mergeProducts(kept[existing], product);
+      message = `Row merged into row ${firstRow} with the same ProductId "${product.productId}"`;
+    }
+
+    warnings.push({ row, field: 'ProductId', message });
+  });
+
+  return { products: kept, rows: keptRows, warnings };
+}
@@ -0,0 +1,336 @@
+import { Writable } from 'stream';
+import { stringify } from 'csv-stringify';
+import { buildComparison } from './comparison.service';
+import { JobData, MatchBreakdown, MultiBuyDeal, ScrapingResult } from '../types';
+import { createWorkbook, XlsxCell, XlsxSheet, XlsxStyle, XlsxValue } from '../utils/xlsx';
+import { logger } from '../utils/logger';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'ndjson'];
+
+export interface ExportFormatOptions {
+  locale?: string;
+}
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  value: (result: ScrapingResult, options: ExportFormatOptions) => string | number | undefined;
+  /** Numeric value for formats with typed cells (prices, scores) */
+  numeric?: (result: ScrapingResult) => number | undefined;
+  /** Cell style of the numeric value (default: price) */
+  style?: XlsxStyle;
+}
+
+export interface CsvExportOptions extends ExportFormatOptions {
+  columns?: string[];
+  delimiter?: string;
+}
+
+/**
+ * Format a price with two decimals, using the locale's decimal separator
+ */
+export function formatPrice(value: number | undefined, locale?: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!locale) {
+    return value.toFixed(2);
+  }
+
+  return new Intl.NumberFormat(locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    useGrouping: false,
+  }).format(value);
+}
+
+/**
+ * Format a match score (0..1) with up to two decimals, using the locale's decimal separator
+ */
+export function formatScore(value: number | undefined, locale?: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  return new Intl.NumberFormat(locale || 'en-US', {
+    maximumFractionDigits: 2,
+    useGrouping: false,
+  }).format(value);
+}
+
+// Spreadsheet apps evaluate a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+/**
+ * Quote text a spreadsheet would evaluate as a formula, e.g. "=HYPERLINK(...)" becomes "'=HYPERLINK(...)"
+ */
+export function escapeFormula<T extends string | number | undefined>(value: T): T | string {
+  return typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Format multi-buy terms, e.g. "2 for 5.00"
+ */
+export function formatMultiBuy(deal: MultiBuyDeal | undefined, locale?: string): string | undefined {
+  return deal ? `${deal.quantity} for ${formatPrice(deal.price, locale)}` : undefined;
+}
+
+/**
+ * Format match score components, e.g. "brand 1; size 0; name 0.67"
+ */
+export function formatMatchBreakdown(breakdown: MatchBreakdown | undefined, locale?: string): string | undefined {
+  if (!breakdown) {
+    return undefined;
+  }
+
+  const parts = (Object.keys(breakdown) as (keyof MatchBreakdown)[])
+    .filter((key) => breakdown[key] !== undefined)
+    .map((key) => `${key} ${formatScore(breakdown[key], locale)}`);
+
+  return parts.length > 0 ? parts.join('; ') : undefined;
+}
+
+// Exportable columns, in default output order
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'productId', header: 'Product ID', value: (r) => r.productId },
+  { key: 'productName', header: 'Product Name', value: (r) => r.productName },
+  { key: 'brand', header: 'Brand', value: (r) => r.brand },
+  { key: 'storeName', header: 'Store Name', value: (r) => r.storeName },
+  { key: 'foundProductName', header: 'Found Product', value: (r) => r.foundProductName },
+  { key: 'price', header: 'Price', value: (r, o) => formatPrice(r.price, o.locale), numeric: (r) => r.price },
+  { key: 'regularPrice', header: 'Regular Price', value: (r, o) => formatPrice(r.regularPrice, o.locale), numeric: (r) => r.regularPrice },
+  { key: 'promoPrice', header: 'Promo Price', value: (r, o) => formatPrice(r.promoPrice, o.locale), numeric: (r) => r.promoPrice },
+  { key: 'memberPrice', header: 'Member Price', value: (r, o) => formatPrice(r.memberPrice, o.locale), numeric: (r) => r.memberPrice },
+  { key: 'multiBuy', header: 'Multi-buy', value: (r, o) => formatMultiBuy(r.multiBuy, o.locale) },
+  { key: 'promoEndDate', header: 'Promo Ends', value: (r) => r.promoEndDate },
+  { key: 'currency', header: 'Currency', value: (r) => r.currency },
+  { key: 'packSize', header: 'Pack Size', value: (r) => r.packSize },
+  { key: 'unitPrice', header: 'Unit Price', value: (r, o) => formatPrice(r.unitPrice, o.locale), numeric: (r) => r.unitPrice },
+  { key: 'unit', header: 'Per Unit', value: (r) => r.unit },
+  { key: 'availability', header: 'Availability', value: (r) => r.availability },
+  { key: 'isExactMatch', header: 'Exact Match', value: (r) => (r.isExactMatch ? 'Yes' : 'No') },
+  { key: 'matchScore', header: 'Match Score', value: (r, o) => formatScore(r.matchScore, o.locale), numeric: (r) => r.matchScore, style: 'default' },
+  { key: 'matchBreakdown', header: 'Match Breakdown', value: (r, o) => formatMatchBreakdown(r.matchBreakdown, o.locale) },
+  { key: 'replacementDescription', header: 'Replacement Info', value: (r) => r.replacementDescription },
+  { key: 'errorMessage', header: 'Error', value: (r) => r.errorMessage },
+];
+
+/**
+ * Get the keys of all exportable columns
+ */
+export function getExportColumnKeys(): string[] {
+  return EXPORT_COLUMNS.map((column) => column.key);
+}
+
+/**
+ * Resolve requested column keys to column definitions (all columns when none requested)
+ */
+export function resolveColumns(keys?: string[]): ExportColumn[] {
+  if (!keys || keys.length === 0) {
+    return EXPORT_COLUMNS;
+  }
+
+  return keys
+    .map((key) => EXPORT_COLUMNS.find((column) => column.key === key))
+    .filter((column): column is ExportColumn => column !== undefined);
+}
+
+/**
+ * Build a download filename for a job export, e.g. price-survey-2025-01-31-1a2b3c4d.csv
+ */
+export function buildExportFilename(job: JobData, extension: string): string {
+  const date = job.createdAt.toISOString().substring(0, 10);
+  return `price-survey-${date}-${job.jobId.substring(0, 8)}.${extension}`;
+}
+
+/**
+ * Wait until a stream can take more data, or has closed
+ */
+function drained(stream: Writable): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      stream.off('drain', done);
+      stream.off('close', done);
+      resolve();
+    };
+    stream.on('drain', done);
+    stream.on('close', done);
+  });
+}
+
+/**
+ * Stream job results as CSV to the output stream, pausing while it is full.
+ * Text cells are escaped so spreadsheets do not run them as formulas.
+ */
+export async function streamResultsCsv(
+  results: ScrapingResult[],
+  output: Writable,
+  options: CsvExportOptions = {}
+): Promise<void> {
+  const columns = resolveColumns(options.columns);
+
+  const stringifier = stringify({
+    header: true,
+    bom: true, // Excel needs the BOM to read UTF-8 correctly
+    delimiter: options.delimiter || ',',
+    columns: columns.map((column) => ({ key: column.key, header: column.header })),
+  });
+
+  stringifier.on('error', (error) => {
+    logger.error('CSV export failed', { error: error.message });
+    output.destroy(error);
+  });
+
+  // Stop producing rows once the client goes away
+  output.on('close', () => stringifier.destroy());
+  stringifier.pipe(output);
+
+  for (const result of results) {
+    if (stringifier.destroyed) {
+      return;
+    }
+
+    const record: Record<string, string | number | undefined> = {};
+    for (const column of columns) {
+      record[column.key] = escapeFormula(column.value(result, options));
+    }
+    if (!stringifier.write(record)) {
+      await drained(stringifier);
+    }
+  }
+
+  stringifier.end();
+}
+
+/**
+ * Stream job results as newline-delimited JSON, one result per line, pausing while the output is full.
+ * Values keep their JSON types; requested columns limit the keys written.
+ */
+export async function streamResultsNdjson(
+  results: ScrapingResult[],
+  output: Writable,
+  options: Pick<CsvExportOptions, 'columns'> = {}
+): Promise<void> {
+  const keys = options.columns && options.columns.length > 0 ? options.columns : undefined;
+
+  for (const result of results) {
+    if (output.destroyed) {
+      return;
+    }
+
+    const record = keys
+      ? Object.fromEntries(keys.map((key) => [key, result[key as keyof ScrapingResult]]))
+      : result;
+    if (!output.write(`${JSON.stringify(record)}\n`)) {
+      await drained(output);
+    }
+  }
+
+  output.end();
+}
+
+/**
+ * Results sheet: one row per result, with prices and scores as numbers and text escaped as in CSV
+ */
+function buildResultsSheet(results: ScrapingResult[], options: CsvExportOptions): XlsxSheet {
+  const columns = resolveColumns(options.columns);
+
+  const rows = results.map((result) =>
+    columns.map((column): XlsxValue | XlsxCell =>
+      column.numeric
+        ? { value: column.numeric(result), style: column.style || 'price' }
+        : escapeFormula(column.value(result, options))
+    )
+  );
+
+  return { name: 'Results', rows: [columns.map((column) => column.header), ...rows] };
+}
+
+/**
+ * Comparison sheet: product × store price matrix with basket totals, cheapest prices highlighted
+ */
+function buildComparisonSheet(job: JobData): XlsxSheet {
+  const comparison = buildComparison(job, 'flag');
+  const header = ['Product ID', 'Product Name', 'Brand', ...comparison.stores, 'Min', 'Median', 'Max', 'Cheapest At', 'Note'];
+
+  const rows = comparison.products.map((product): Array<XlsxValue | XlsxCell> => [
+    product.productId,
+    product.productName,
+    product.brand,
+    ...comparison.stores.map((store): XlsxCell => {
+      const cell = product.cells[store];
+      return { value: cell?.price, style: cell?.isCheapest ? 'highlightPrice' : 'price' };
+    }),
+    { value: product.minPrice, style: 'price' },
+    { value: product.medianPrice, style: 'price' },
+    { value: product.maxPrice, style: 'price' },
+    product.cheapestStores.join(', '),
+    product.replacementOnly ? 'Replacements only' : undefined,
+  ]);
+
+  const basketRow = (label: string, total: (index: number) => number | undefined): Array<XlsxValue | XlsxCell> => [
+    label,
+    undefined,
+    undefined,
+    ...comparison.baskets.map((basket, index): XlsxCell => ({
+      value: total(index),
+      style: basket.isCheapest ? 'highlightPrice' : 'price',
+    })),
+  ];
+
+  return {
+    name: 'Comparison',
+    rows: [
+      header,
+      ...rows,
+      [],
+      basketRow('Basket total', (index) => comparison.baskets[index].total),
+      basketRow(
+        `Common basket (${comparison.comparableProducts} products)`,
+        (index) => comparison.baskets[index].comparableTotal
+      ),
+    ],
+  };
+}
+
+/**
+ * Errors sheet: upload validation errors and warnings, the job's own failure
+ * and every task that ended in an error
+ */
+function buildErrorsSheet(job: JobData): XlsxSheet {
+  const rows: XlsxValue[][] = [];
+
+  for (const issue of [...(job.uploadReport?.errors || []), ...(job.uploadReport?.warnings || [])]) {
+    const type = issue.severity === 'error' ? 'Upload error' : 'Upload warning';
+    rows.push([type, issue.file, issue.row || undefined, issue.field, undefined, undefined, undefined, issue.message]);
+  }
+
+  if (job.error) {
+    rows.push(['Job', undefined, undefined, undefined, undefined, undefined, undefined, job.error]);
+  }
+
+  for (const result of job.results || []) {
+    if (result.errorMessage) {
+      rows.push(['Scrape', undefined, undefined, undefined, result.storeName, result.productId, result.productName, result.errorMessage]);
+    }
+  }
+
+  return {
+    name: 'Errors',
+    rows: [['Type', 'File', 'Row', 'Field', 'Store Name', 'Product ID', 'Product Name', 'Message'], ...rows],
+  };
+}
+
+/**
+ * Build an XLSX workbook of a job's results, store comparison and errors
+ */
+export function buildResultsWorkbook(job: JobData, options: CsvExportOptions = {}): Buffer {
+  return createWorkbook([
+    buildResultsSheet(job.results || [], options),
+    buildComparisonSheet(job),
+    buildErrorsSheet(job),
+  ]);
+}
@@ -1,8 +1,100 @@
-import { JobData, JobStatus } from '../types';
+import { z } from 'zod';
+import {
+  JobData,
+  JobProgress,
+  JobStatus,
+  ScrapingResult,
+  StoreData,
+  ProductData,
+  TaskProgress,
+  JobSummary,
+  PriceAlert,
+} from '../types';
+import { createRecordStore } from '../storage';
+import { storedProductSchema, storedStoreSchema } from '../utils/validation';
 import { logger } from '../utils/logger';
 
-// In-memory storage for jobs
-const jobs = new Map<string, JobData>();
+// A persisted result as read back; a job with a malformed result is not loaded
+const storedResultSchema = z.object({
+  productId: z.string(),
+  productName: z.string(),
+  brand: z.string(),
+  storeName: z.string(),
+  isExactMatch: z.boolean(),
+  price: z.number().optional(),
+  unitPrice: z.number().optional(),
+  unit: z.enum(['L', 'kg', 'each']).optional(),
+  matchScore: z.number().optional(),
+}).passthrough();
+
+// A persisted job as read back: dates are ISO strings, other fields are kept as stored
+const storedJobSchema = z.object({
+  jobId: z.string(),
+  status: z.nativeEnum(JobStatus),
+  stores: z.array(storedStoreSchema),
+  products: z.array(storedProductSchema),
+  createdAt: z.coerce.date(),
+  results: z.array(storedResultSchema).optional(),
+  progress: z.object({
+    totalTasks: z.number(),
+    completedTasks: z.number(),
+    failedTasks: z.number(),
+    startedAt: z.coerce.date().optional(),
+    finishedAt: z.coerce.date().optional(),
+    estimatedCompletionAt: z.coerce.date().optional(),
+  }).passthrough().optional(),
+  alerts: z.array(z.object({
+    type: z.enum(['price-rise', 'price-drop', 'out-of-stock', 'new-replacement']),
+    productId: z.string(),
+    productName: z.string(),
+    storeName: z.string(),
+    message: z.string(),
+    previousJobId: z.string(),
+    sentAt: z.coerce.date().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+/**
+ * Check a persisted job and restore its Date fields
+ */
+export function reviveJob(raw: unknown): JobData {
+  return storedJobSchema.parse(raw);
+}
+
+export interface JobQuery {
+  statuses?: JobStatus[];
+  createdFrom?: Date;
+  createdTo?: Date;
+  /** Case-insensitive substring of any store name on the job */
+  storeName?: string;
+  sort?: 'asc' | 'desc';
+  page: number;
+  pageSize: number;
+}
+
+export interface JobPage {
+  jobs: JobSummary[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+// Job storage (in-memory or file-backed, see config.persistence)
+const jobs = createRecordStore<JobData>('jobs', reviveJob);
+
+// Statuses whose (possibly partial) results can be read and exported
+const RESULT_STATUSES = [JobStatus.COMPLETED, JobStatus.CANCELLED, JobStatus.FAILED];
+
+// Jobs that were running when the server stopped can never finish
+for (const job of jobs.values()) {
+  if (job.status === JobStatus.PROCESSING || job.status === JobStatus.PAUSED) {
+    job.status = JobStatus.FAILED;
+    job.error = 'Interrupted by server restart';
+    jobs.set(job.jobId, job);
+    logger.warn(`Job ${job.jobId} was interrupted by a restart and marked as failed`);
+  }
+}
 
 /**
  * Save a job to storage
@@ -19,6 +111,13 @@ export function getJob(jobId: string): JobData | undefined {
   return jobs.get(jobId);
 }
 
+/**
+ * Check whether a job has finished with results that can be read
+ */
+export function hasResults(job: JobData): boolean {
+  return RESULT_STATUSES.includes(job.status);
+}
+
 /**
  * Update job status
  */
@@ -28,12 +127,134 @@ export function updateJobStatus(jobId: string, status: JobStatus, error?: string
     job.status = status;
     if (error) {
       job.error = error;
+    } else if (status === JobStatus.PROCESSING) {
+      // A new run starts without the previous run's error
+      delete job.error;
     }
     jobs.set(jobId, job);
     logger.info(`Job ${jobId} status updated to ${status}`);
   }
 }
 
+/**
+ * Save task progress for a job
+ */
+export function updateJobProgress(jobId: string, progress: JobProgress): void {
+  const job = jobs.get(jobId);
+  if (job) {
+    job.progress = { ...progress };
+    jobs.set(jobId, job);
+  }
+}
+
+/**
+ * Store the price alerts raised for a job
+ */
+export function saveJobAlerts(jobId: string, alerts: PriceAlert[]): void {
+  const job = jobs.get(jobId);
+  if (job) {
+    job.alerts = alerts;
+    jobs.set(jobId, job);
+  }
+}
+
+/**
+ * Get a job's progress, derived from its results if it has never run
+ */
+export function getJobProgress(job: JobData): JobProgress {
+  if (job.progress) {
+    return job.progress;
+  }
+
+  const results = job.results || [];
+  return {
+    totalTasks: job.stores.length * job.products.length,
+    completedTasks: results.length,
+    failedTasks: results.filter((result) => result.errorMessage).length,
+  };
+}
+
+/**
+ * Summarize progress as counts, percentage and remaining time
+ */
+export function summarizeProgress(progress: JobProgress): TaskProgress {
+  const { completedTasks, failedTasks, totalTasks, estimatedCompletionAt } = progress;
+
+  return {
+    completedTasks,
+    failedTasks,
+    totalTasks,
+    percent: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 100,
+    etaMs: estimatedCompletionAt ? Math.max(0, estimatedCompletionAt.getTime() - Date.now()) : undefined,
+  };
+}
+
+/**
+ * Key identifying one store x product task
+ */
+function taskKey(productId: string, storeName: string): string {
+  return `${storeName}\u0000${productId}`;
+}
+
+/**
+ * Checkpoint the result of a single store x product task, replacing any earlier attempt.
+ * Returns the result it replaced, if any.
+ */
+export function saveTaskResult(jobId: string, result: ScrapingResult): ScrapingResult | undefined {
+  const job = jobs.get(jobId);
+  if (!job) {
+    return undefined;
+  }
+
+  const key = taskKey(result.productId, result.storeName);
+  const replaced = job.results?.find((r) => taskKey(r.productId, r.storeName) === key);
+  const results = (job.results || []).filter((r) => r !== replaced);
+  results.push(result);
+
+  job.results = results;
+  jobs.set(jobId, job);
+  return replaced;
+}
+
+/**
+ * Get the products of a store that still need scraping (no result yet, or a failed one)
+ */
+export function getPendingProducts(job: JobData, store: StoreData): ProductData[] {
+  const succeeded = new Set(
+    (job.results || [])
+      .filter((result) => !result.errorMessage)
+      .map((result) => taskKey(result.productId, result.storeName))
+  );
+
+  return job.products.filter((product) => !succeeded.has(taskKey(product.productId, store.storeName)));
+}
+
+/**
+ * Count the store x product tasks that still need scraping
+ */
+export function countPendingTasks(job: JobData): number {
+  return job.stores.reduce((count, store) => count + getPendingProducts(job, store).length, 0);
+}
+
+/**
+ * Order a job's results by store, then product, as listed in the upload
+ */
+export function sortJobResults(jobId: string): void {
+  const job = jobs.get(jobId);
+  if (!job || !job.results) {
+    return;
+  }
+
+  const storeOrder = new Map(job.stores.map((store, index) => [store.storeName, index]));
+  const productOrder = new Map(job.products.map((product, index) => [product.productId, index]));
+
+  job.results.sort((a, b) =>
+    (storeOrder.get(a.storeName) ?? 0) - (storeOrder.get(b.storeName) ?? 0)
+    || (productOrder.get(a.productId) ?? 0) - (productOrder.get(b.productId) ?? 0)
+  );
+  jobs.set(jobId, job);
+}
+
 /**
  * Delete a job
  */
@@ -49,14 +270,76 @@ export function deleteJob(jobId: string): boolean {
  * Get all job IDs
  */
 export function getAllJobIds(): string[] {
-  return Array.from(jobs.keys());
+  return jobs.keys();
+}
+
+/**
+ * Summarize a job for listings, without its full store, product and result data
+ */
+export function summarizeJob(job: JobData): JobSummary {
+  const results = job.results || [];
+  const failed = results.filter((result) => result.errorMessage);
+  const found = results.filter((result) => !result.errorMessage);
+
+  return {
+    jobId: job.jobId,
+    status: job.status,
+    createdAt: job.createdAt,
+    storeNames: job.stores.map((store) => store.storeName),
+    stores: job.stores.length,
+    products: job.products.length,
+    resultsCount: results.length,
+    exactMatches: found.filter((result) => result.isExactMatch).length,
+    replacements: found.filter((result) => !result.isExactMatch).length,
+    failedTasks: failed.length,
+    progress: summarizeProgress(getJobProgress(job)),
+    error: job.error,
+  };
+}
+
+/**
+ * Find jobs matching a query, sorted by creation time and paginated
+ */
+export function findJobs(query: JobQuery): JobPage {
+  const storeName = query.storeName?.toLowerCase();
+  const direction = query.sort === 'asc' ? 1 : -1;
+
+  const matching = jobs
+    .values()
+    .filter((job) => !query.statuses || query.statuses.includes(job.status))
+    .filter((job) => !query.createdFrom || job.createdAt >= query.createdFrom)
+    .filter((job) => !query.createdTo || job.createdAt <= query.createdTo)
+    .filter((job) => !storeName || job.stores.some((store) => store.storeName.toLowerCase().includes(storeName)))
+    .sort((a, b) => direction * (a.createdAt.getTime() - b.createdAt.getTime()));
+
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    jobs: matching.slice(start, start + query.pageSize).map(summarizeJob),
+    page: query.page,
+    pageSize: query.pageSize,
+    total: matching.length,
+    totalPages: Math.ceil(matching.length / query.pageSize),
+  };
+}
+
+/**
+ * Get the product IDs used by any job, optionally ignoring one job
+ */
+export function getProductIdsInUse(excludeJobId?: string): Set<string> {
+  return new Set(
+    jobs
+      .values()
+      .filter((job) => job.jobId !== excludeJobId)
+      .flatMap((job) => job.products.map((product) => product.productId))
+  );
 }
 
 /**
  * Clear all jobs (useful for testing)
  */
 export function clearAllJobs(): void {
-  const count = jobs.size;
+  const count = jobs.keys().length;
   jobs.clear();
   logger.info(`Cleared ${count} jobs from storage`);
 }
@@ -1,21 +1,29 @@
 import { OpenAIClient, AzureKeyCredential } from '@azure/openai';
 import { config } from '../config';
+import { PromoPricing } from '../types';
 import { logger } from '../utils/logger';
 
 let openaiClient: OpenAIClient | null = null;
 
+/**
+ * Check whether Azure OpenAI credentials are configured
+ */
+export function isOpenAIConfigured(): boolean {
+  return Boolean(config.azure.openai.endpoint && config.azure.openai.key);
+}
+
 /**
  * Initialize Azure OpenAI client
  */
 export function getOpenAIClient(): OpenAIClient {
   if (!openaiClient) {
-    if (!config.azure.openai.endpoint || !config.azure.openai.key) {
+    if (!isOpenAIConfigured()) {
       throw new Error('Azure OpenAI credentials not configured');
     }
 
     openaiClient = new OpenAIClient(
-      config.azure.openai.endpoint,
-      new AzureKeyCredential(config.azure.openai.key)
+      config.azure.openai.endpoint!,
+      new AzureKeyCredential(config.azure.openai.key!)
     );
 
     logger.info('Azure OpenAI client initialized');
@@ -91,27 +99,35 @@ export async function generateCompletion(
  * Generate embeddings for text
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await generateEmbeddings([text]);
+  return embedding;
+}
+
+/**
+ * Generate embeddings for several texts in one request, in the order given
+ */
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
   const client = getOpenAIClient();
 
   try {
-    logger.debug('Generating embedding', {
+    logger.debug('Generating embeddings', {
       deployment: config.azure.openai.embeddingDeployment,
-      textLength: text.length,
+      count: texts.length,
     });
 
     const response = await client.getEmbeddings(
       config.azure.openai.embeddingDeployment,
-      [text]
+      texts
     );
 
-    const embedding = response.data[0]?.embedding;
-    if (!embedding) {
+    const embeddings = texts.map((_, index) => response.data.find((item) => item.index === index)?.embedding);
+    if (embeddings.some((embedding) => !embedding)) {
       throw new Error('No embedding returned from OpenAI');
     }
 
-    logger.debug('Generated embedding', { dimensions: embedding.length });
+    logger.debug('Generated embeddings', { count: embeddings.length, dimensions: embeddings[0]?.length });
 
-    return embedding;
+    return embeddings as number[][];
   } catch (error) {
     logger.error('Azure OpenAI embedding generation failed', {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -167,16 +183,30 @@ Return JSON: { "searchInputSelector": "...", "searchButtonSelector": "...", "sea
   }
 }
 
+/**
+ * Parse an optional numeric field from a model response
+ */
+function parseOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const parsed = parseFloat(String(value));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
 /**
  * Extract price information from HTML or text
  */
-export async function extractPrice(content: string, productName: string): Promise<{
+export async function extractPrice(content: string, productName: string): Promise<PromoPricing & {
   price?: number;
   currency?: string;
   availability?: string;
   foundProductName?: string;
 }> {
   const systemMessage = `You are a price extraction expert. Extract product price, currency, availability, and exact product name from web content.
+NZ supermarkets show specials ("was $4.50, now $3.50"), club or member-only prices, and multi-buy deals ("2 for $5").
+Tell the regular shelf price apart from promotional and member prices.
 If the exact product is not found, look for similar products.
 Respond in JSON format only.`;
 
@@ -184,19 +214,37 @@ Respond in JSON format only.`;
 
 ${content.substring(0, 3000)}
 
-Return JSON: { "price": number, "currency": "NZD", "availability": "In Stock|Out of Stock|Low Stock", "foundProductName": "..." }
+Return JSON: {
+  "price": number (price a non-member pays for one item today),
+  "regularPrice": number (shelf price without any special),
+  "promoPrice": number or null (special price available to everyone),
+  "memberPrice": number or null (club card / member-only price),
+  "multiBuyQuantity": number or null, "multiBuyPrice": number or null (e.g. 2 and 5 for "2 for $5"),
+  "promoEndDate": "YYYY-MM-DD" or null,
+  "currency": "NZD",
+  "availability": "In Stock|Out of Stock|Low Stock",
+  "foundProductName": "..."
+}
 If product not found, return: { "availability": "Out of Stock" }`;
 
   const response = await generateCompletion(prompt, {
     systemMessage,
     temperature: 0.1, // Low temperature for factual extraction
-    maxTokens: 300,
+    maxTokens: 400,
   });
 
   try {
     const parsed = JSON.parse(response);
+    const multiBuyQuantity = parseOptionalNumber(parsed.multiBuyQuantity);
+    const multiBuyPrice = parseOptionalNumber(parsed.multiBuyPrice);
+
     return {
-      price: parsed.price ? parseFloat(parsed.price) : undefined,
+      price: parseOptionalNumber(parsed.price),
+      regularPrice: parseOptionalNumber(parsed.regularPrice),
+      promoPrice: parseOptionalNumber(parsed.promoPrice),
+      memberPrice: parseOptionalNumber(parsed.memberPrice),
+      multiBuy: multiBuyQuantity && multiBuyPrice ? { quantity: multiBuyQuantity, price: multiBuyPrice } : undefined,
+      promoEndDate: /^\d{4}-\d{2}-\d{2}$/.test(parsed.promoEndDate || '') ? parsed.promoEndDate : undefined,
       currency: parsed.currency || 'NZD',
       availability: parsed.availability || 'Unknown',
       foundProductName: parsed.foundProductName,
@@ -0,0 +1,151 @@
+import { Page } from 'playwright';
+import { extractPrice, isOpenAIConfigured } from './openai.service';
+import { ProductData, PromoPricing } from '../types';
+import { parsePromoTerms, isPromoTermLine } from '../utils/promo';
+import { logger } from '../utils/logger';
+
+export interface ExtractedPrice extends PromoPricing {
+  price?: number;
+  currency?: string;
+  availability?: string;
+  foundProductName?: string;
+  /** Unit price as displayed by the store, e.g. "$1.43 / 100g" */
+  unitPriceText?: string;
+}
+
+const PRICE_PATTERN = /\$\s?(\d{1,5}(?:\.\d{1,2})?)/;
+const OUT_OF_STOCK_PATTERN = /out of stock|sold out|unavailable/i;
+
+// Number of lines after a product name line that may hold its price
+const PRICE_LOOKAHEAD_LINES = 4;
+
+/**
+ * Split text into lowercase word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1);
+}
+
+/**
+ * Build the search query used for a product
+ */
+export function buildSearchQuery(product: ProductData): string {
+  const name = product.productName.trim();
+  const brand = product.brand.trim();
+
+  // Avoid "Anchor Anchor UHT Milk" when the name already carries the brand
+  if (!brand || name.toLowerCase().includes(brand.toLowerCase())) {
+    return name;
+  }
+
+  return `${brand} ${name}`;
+}
+
+/**
+ * Extract price from page text without AI by locating the line that best
+ * matches the product and reading the nearest dollar amount after it
+ */
+export function extractPriceFromText(text: string, product: ProductData): ExtractedPrice {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const queryTokens = new Set(tokenize(buildSearchQuery(product)));
+
+  let bestIndex = -1;
+  let bestScore = 0;
+
+  lines.forEach((line, index) => {
+    const lineTokens = tokenize(line);
+    const score = lineTokens.filter((token) => queryTokens.has(token)).length;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+
+  if (bestIndex === -1) {
+    return { availability: 'Out of Stock' };
+  }
+
+  const window = lines.slice(bestIndex, bestIndex + PRICE_LOOKAHEAD_LINES + 1);
+
+  // Prefer the price everyone pays over "was", club and multi-buy prices
+  let priceOffset = window.findIndex((line) => PRICE_PATTERN.test(line) && !isPromoTermLine(line));
+  if (priceOffset === -1) {
+    priceOffset = window.findIndex((line) => PRICE_PATTERN.test(line));
+  }
+  const priceMatch = priceOffset === -1 ? null : window[priceOffset].match(PRICE_PATTERN);
+
+  if (!priceMatch) {
+    return {
+      foundProductName: lines[bestIndex],
+      availability: 'Out of Stock',
+    };
+  }
+
+  // Promo terms sit with the price, either before it or on the lines right after
+  let termsEnd = priceOffset + 1;
+  while (termsEnd < window.length && isPromoTermLine(window[termsEnd])) {
+    termsEnd++;
+  }
+
+  return {
+    ...parsePromoTerms(window.slice(0, termsEnd).join('\n')),
+    foundProductName: lines[bestIndex],
+    price: parseFloat(priceMatch[1]),
+    currency: 'NZD',
+    availability: window.slice(0, priceOffset + 1).some((line) => OUT_OF_STOCK_PATTERN.test(line))
+      ? 'Out of Stock'
+      : 'In Stock',
+  };
+}
+
+/**
+ * Reconcile extracted prices so that `price` is what a non-member pays today,
+ * `regularPrice` the shelf price and `promoPrice` set only during a special
+ */
+export function resolvePricing(extracted: ExtractedPrice): PromoPricing & { price?: number } {
+  const regularPrice = extracted.regularPrice ?? extracted.price;
+
+  let promoPrice = extracted.promoPrice;
+  if (promoPrice === undefined && extracted.price !== undefined && regularPrice !== undefined && extracted.price < regularPrice) {
+    promoPrice = extracted.price;
+  }
+  if (promoPrice !== undefined && regularPrice !== undefined && promoPrice >= regularPrice) {
+    promoPrice = undefined;
+  }
+
+  return {
+    price: promoPrice ?? regularPrice,
+    regularPrice,
+    promoPrice,
+    memberPrice: extracted.memberPrice,
+    multiBuy: extracted.multiBuy,
+    promoEndDate: extracted.promoEndDate,
+  };
+}
+
+/**
+ * Extract price information for a product from the current search results page.
+ * Uses Azure OpenAI when configured, otherwise text heuristics.
+ */
+export async function extractProductPrice(page: Page, product: ProductData): Promise<ExtractedPrice> {
+  const text = await page.innerText('body');
+
+  if (isOpenAIConfigured()) {
+    try {
+      return await extractPrice(text, buildSearchQuery(product));
+    } catch (error) {
+      logger.warn(`AI price extraction failed for ${product.productName}, using heuristics`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return extractPriceFromText(text, product);
+}
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import { PriceChange, PriceHistory, PricePoint, ScrapingResult } from '../types';
+import { getJob } from './job-storage.service';
+import { createRecordStore } from '../storage';
+import { logger } from '../utils/logger';
+
+// A persisted history as read back: dates are ISO strings, other fields are kept as stored
+const storedHistorySchema = z.object({
+  productId: z.string(),
+  storeName: z.string(),
+  points: z.array(z.object({
+    jobId: z.string(),
+    recordedAt: z.coerce.date(),
+    isExactMatch: z.boolean(),
+  }).passthrough()),
+}).passthrough();
+
+/**
+ * Check a persisted history and restore its Date fields
+ */
+function reviveHistory(raw: unknown): PriceHistory {
+  return storedHistorySchema.parse(raw);
+}
+
+// Price history per product and store (in-memory or file-backed, see config.persistence)
+const histories = createRecordStore<PriceHistory>('price-history', reviveHistory);
+
+/**
+ * Key identifying one product at one store
+ */
+function historyKey(productId: string, storeName: string): string {
+  return `${productId}\u0000${storeName}`;
+}
+
+/**
+ * Record a job result in the price history.
+ * A job has at most one point per product and store, so a retried task replaces its earlier point.
+ * Results without a scraped price are not recorded.
+ */
+export function recordPricePoint(jobId: string, result: ScrapingResult, recordedAt: Date = new Date()): void {
+  if (result.errorMessage) {
+    return;
+  }
+
+  const key = historyKey(result.productId, result.storeName);
+  const history = histories.get(key) || { productId: result.productId, storeName: result.storeName, points: [] };
+
+  const point: PricePoint = {
+    jobId,
+    recordedAt,
+    price: result.price,
+    regularPrice: result.regularPrice,
+    promoPrice: result.promoPrice,
+    memberPrice: result.memberPrice,
+    multiBuy: result.multiBuy,
+    promoEndDate: result.promoEndDate,
+    unitPrice: result.unitPrice,
+    unit: result.unit,
+    availability: result.availability,
+    foundProductName: result.foundProductName,
+    isExactMatch: result.isExactMatch,
+  };
+
+  history.points = history.points
+    .filter((existing) => existing.jobId !== jobId)
+    .concat(point)
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+
+  histories.set(key, history);
+}
+
+/**
+ * Get the price history of a product at every store it was surveyed at
+ */
+export function getProductHistory(productId: string): PriceHistory[] {
+  return histories
+    .values()
+    .filter((history) => history.productId === productId)
+    .sort((a, b) => a.storeName.localeCompare(b.storeName));
+}
+
+/**
+ * When the job that recorded a point was created. Retried tasks record new points,
+ * so points are ordered by their job rather than by when they were recorded.
+ */
+function jobCreatedAt(point: PricePoint): Date {
+  return getJob(point.jobId)?.createdAt ?? point.recordedAt;
+}
+
+/**
+ * Get the point recorded for a product and store by the latest job created before the given one
+ */
+export function getPreviousPoint(productId: string, storeName: string, jobId: string): PricePoint | undefined {
+  const history = histories.get(historyKey(productId, storeName));
+  if (!history) {
+    return undefined;
+  }
+
+  const createdAt = getJob(jobId)?.createdAt ?? history.points.find((point) => point.jobId === jobId)?.recordedAt;
+  const earlier = history.points
+    .filter((point) => point.jobId !== jobId && (!createdAt || jobCreatedAt(point) < createdAt))
+    .sort((a, b) => jobCreatedAt(a).getTime() - jobCreatedAt(b).getTime());
+
+  return earlier[earlier.length - 1];
+}
+
+/**
+ * Compare each result of a job with the previous run for the same product and store
+ */
+export function getPriceChanges(jobId: string, results: ScrapingResult[]): PriceChange[] {
+  const changes: PriceChange[] = [];
+
+  for (const result of results) {
+    const previous = getPreviousPoint(result.productId, result.storeName, jobId);
+    if (!previous) {
+      continue;
+    }
+
+    const change: PriceChange = {
+      productId: result.productId,
+      storeName: result.storeName,
+      price: result.price,
+      previousJobId: previous.jobId,
+      previousRecordedAt: previous.recordedAt,
+      previousPrice: previous.price,
+    };
+
+    if (result.price !== undefined && previous.price !== undefined) {
+      change.change = Math.round((result.price - previous.price) * 100) / 100;
+      change.changePercent = previous.price > 0
+        ? Math.round(((result.price - previous.price) / previous.price) * 10000) / 100
+        : undefined;
+    }
+
+    changes.push(change);
+  }
+
+  return changes;
+}
+
+/**
+ * Remove every point recorded by a job
+ */
+export function removeJobHistory(jobId: string): number {
+  let removed = 0;
+
+  for (const key of histories.keys()) {
+    const history = histories.get(key)!;
+    const points = history.points.filter((point) => point.jobId !== jobId);
+
+    if (points.length === history.points.length) {
+      continue;
+    }
+
+    removed += history.points.length - points.length;
+    if (points.length === 0) {
+      histories.delete(key);
+    } else {
+      histories.set(key, { ...history, points });
+    }
+  }
+
+  if (removed > 0) {
+    logger.info(`Removed ${removed} price history points of job ${jobId}`);
+  }
+
+  return removed;
+}
@@ -0,0 +1,80 @@
+import { Server as HttpServer } from 'http';
+import { Server as SocketIOServer } from 'socket.io';
+import { getJob } from './job-storage.service';
+import { ClientToServerEvents, ServerToClientEvents } from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+type EventName = keyof ServerToClientEvents;
+
+let io: SocketIOServer<ClientToServerEvents, ServerToClientEvents> | null = null;
+
+/**
+ * Socket.IO room holding the subscribers of a job
+ */
+function jobRoom(jobId: string): string {
+  return `job:${jobId}`;
+}
+
+/**
+ * Attach Socket.IO to the HTTP server.
+ * Clients subscribe to a job's room and only receive that job's events.
+ */
+export function initRealtime(httpServer: HttpServer): SocketIOServer<ClientToServerEvents, ServerToClientEvents> {
+  io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(httpServer, {
+    cors: {
+      origin: config.nodeEnv === 'production'
+        ? process.env.ALLOWED_ORIGINS?.split(',') || '*'
+        : '*',
+      credentials: true,
+    },
+  });
+
+  io.on('connection', (socket) => {
+    logger.info(`Client connected: ${socket.id}`);
+
+    socket.on('job:subscribe', (jobId, ack) => {
+      const job = typeof jobId === 'string' ? getJob(jobId) : undefined;
+
+      if (!job) {
+        ack?.({ ok: false, error: `Job ${jobId} not found` });
+        return;
+      }
+
+      socket.join(jobRoom(jobId));
+      logger.debug(`Client ${socket.id} subscribed to job ${jobId}`);
+
+      // Report the current status so late subscribers can catch up
+      ack?.({ ok: true, status: job.status });
+    });
+
+    socket.on('job:unsubscribe', (jobId) => {
+      if (typeof jobId === 'string') {
+        socket.leave(jobRoom(jobId));
+        logger.debug(`Client ${socket.id} unsubscribed from job ${jobId}`);
+      }
+    });
+
+    socket.on('disconnect', () => {
+      logger.info(`Client disconnected: ${socket.id}`);
+    });
+  });
+
+  return io;
+}
+
+/**
+ * Emit an event to the subscribers of a job
+ */
+export function emitJobEvent<E extends EventName>(
+  jobId: string,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+): void {
+  if (!io) {
+    return;
+  }
+
+  io.to(jobRoom(jobId)).emit(event, ...args);
+  logger.debug(`Emitted ${event} for job ${jobId}`);
+}
@@ -0,0 +1,247 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { createSurveyJob } from './survey.service';
+import { startScraping } from './scraper.service';
+import { getJob } from './job-storage.service';
+import { JobStatus, ProductData, ScheduleRun, StoreData, SurveySchedule } from '../types';
+import { createRecordStore } from '../storage';
+import { storedProductSchema, storedStoreSchema } from '../utils/validation';
+import { parseCron, getNextRun } from '../utils/cron';
+import { logger } from '../utils/logger';
+
+export interface ScheduleInput {
+  name: string;
+  cron: string;
+  enabled?: boolean;
+  stores: StoreData[];
+  products: ProductData[];
+}
+
+// How often the scheduler looks for due schedules
+const SCHEDULER_INTERVAL_MS = 30000;
+
+// Runs kept per schedule
+const MAX_RUN_HISTORY = 100;
+
+// A persisted schedule as read back: dates are ISO strings, other fields are kept as stored
+const storedScheduleSchema = z.object({
+  scheduleId: z.string(),
+  name: z.string(),
+  cron: z.string(),
+  enabled: z.boolean(),
+  stores: z.array(storedStoreSchema),
+  products: z.array(storedProductSchema),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  nextRunAt: z.coerce.date().optional(),
+  lastRunAt: z.coerce.date().optional(),
+  runs: z.array(z.object({
+    runAt: z.coerce.date(),
+    trigger: z.enum(['cron', 'manual']),
+    outcome: z.enum(['started', 'skipped', 'failed']),
+  }).passthrough()),
+}).passthrough();
+
+/**
+ * Check a persisted schedule and restore its Date fields
+ */
+function reviveSchedule(raw: unknown): SurveySchedule {
+  return storedScheduleSchema.parse(raw);
+}
+
+// Saved survey schedules (in-memory or file-backed, see config.persistence)
+const schedules = createRecordStore<SurveySchedule>('schedules', reviveSchedule);
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Work out when an enabled schedule should next run
+ */
+function computeNextRun(schedule: SurveySchedule, after: Date = new Date()): Date | undefined {
+  return schedule.enabled ? getNextRun(parseCron(schedule.cron), after) : undefined;
+}
+
+/**
+ * Create a schedule. Throws if the cron expression is invalid.
+ */
+export function createSchedule(input: ScheduleInput): SurveySchedule {
+  const now = new Date();
+  const schedule: SurveySchedule = {
+    scheduleId: randomUUID(),
+    name: input.name,
+    cron: parseCron(input.cron).expression,
+    enabled: input.enabled ?? true,
+    stores: input.stores,
+    products: input.products,
+    createdAt: now,
+    updatedAt: now,
+    runs: [],
+  };
+
+  schedule.nextRunAt = computeNextRun(schedule, now);
+  schedules.set(schedule.scheduleId, schedule);
+
+  logger.info(`Schedule created: ${schedule.scheduleId} "${schedule.name}" (${schedule.cron})`);
+  return schedule;
+}
+
+/**
+ * Get a schedule by ID
+ */
+export function getSchedule(scheduleId: string): SurveySchedule | undefined {
+  return schedules.get(scheduleId);
+}
+
+/**
+ * List all schedules by name
+ */
+export function listSchedules(): SurveySchedule[] {
+  return schedules.values().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Update a schedule. Throws if the cron expression is invalid.
+ */
+export function updateSchedule(scheduleId: string, changes: Partial<ScheduleInput>): SurveySchedule | undefined {
+  const existing = schedules.get(scheduleId);
+  if (!existing) {
+    return undefined;
+  }
+
+  // Fields left undefined keep their current value
+  const provided = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as Partial<ScheduleInput>;
+
+  const schedule: SurveySchedule = {
+    ...existing,
+    ...provided,
+    cron: provided.cron !== undefined ? parseCron(provided.cron).expression : existing.cron,
+    updatedAt: new Date(),
+  };
+
+  schedule.nextRunAt = computeNextRun(schedule);
+  schedules.set(scheduleId, schedule);
+
+  logger.info(`Schedule updated: ${scheduleId}`);
+  return schedule;
+}
+
+/**
+ * Delete a schedule (jobs it created are kept)
+ */
+export function deleteSchedule(scheduleId: string): boolean {
+  if (!schedules.has(scheduleId)) {
+    return false;
+  }
+
+  schedules.delete(scheduleId);
+  logger.info(`Schedule deleted: ${scheduleId}`);
+  return true;
+}
+
+/**
+ * Record a run on its schedule, keeping the most recent runs only
+ */
+function recordRun(scheduleId: string, run: ScheduleRun): void {
+  const schedule = schedules.get(scheduleId);
+  if (!schedule) {
+    return;
+  }
+
+  schedule.lastRunAt = run.runAt;
+  schedule.runs = [run, ...schedule.runs].slice(0, MAX_RUN_HISTORY);
+  schedules.set(scheduleId, schedule);
+}
+
+/**
+ * Create and start a job for a schedule, through the same path as an upload.
+ * A run is skipped while the schedule's previous job is still running.
+ */
+export function runSchedule(scheduleId: string, trigger: ScheduleRun['trigger']): ScheduleRun | undefined {
+  const schedule = schedules.get(scheduleId);
+  if (!schedule) {
+    return undefined;
+  }
+
+  const runAt = new Date();
+  const previousJob = schedule.runs.find((run) => run.jobId)?.jobId;
+  const previousStatus = previousJob ? getJob(previousJob)?.status : undefined;
+
+  let run: ScheduleRun;
+
+  if (previousStatus === JobStatus.PROCESSING || previousStatus === JobStatus.PAUSED) {
+    run = { runAt, trigger, outcome: 'skipped', message: `Previous job ${previousJob} is still ${previousStatus}` };
+    logger.warn(`Schedule ${scheduleId} run skipped: ${run.message}`);
+  } else {
+    try {
+      const job = createSurveyJob(schedule.stores, schedule.products, { scheduleId });
+
+      startScraping(job.jobId).catch((error) => {
+        logger.error(`Scheduled job ${job.jobId} failed: ${error.message}`, { stack: error.stack });
+      });
+
+      run = { runAt, trigger, jobId: job.jobId, outcome: 'started' };
+      logger.info(`Schedule ${scheduleId} started job ${job.jobId} (${trigger})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      run = { runAt, trigger, outcome: 'failed', message };
+      logger.error(`Schedule ${scheduleId} run failed: ${message}`);
+    }
+  }
+
+  recordRun(scheduleId, run);
+  return run;
+}
+
+/**
+ * Run every enabled schedule that is due
+ */
+function runDueSchedules(now: Date = new Date()): void {
+  for (const schedule of schedules.values()) {
+    if (!schedule.enabled || !schedule.nextRunAt || schedule.nextRunAt > now) {
+      continue;
+    }
+
+    // Move on before running so a slow run cannot trigger twice
+    schedule.nextRunAt = computeNextRun(schedule, now);
+    schedules.set(schedule.scheduleId, schedule);
+
+    runSchedule(schedule.scheduleId, 'cron');
+  }
+}
+
+/**
+ * Start the in-process scheduler.
+ * Runs missed while the server was down are skipped, not caught up.
+ */
+export function startScheduler(): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  const now = new Date();
+  for (const schedule of schedules.values()) {
+    if (schedule.enabled && (!schedule.nextRunAt || schedule.nextRunAt < now)) {
+      if (schedule.nextRunAt) {
+        logger.warn(`Schedule ${schedule.scheduleId} missed its run at ${schedule.nextRunAt.toISOString()}`);
+      }
+      schedule.nextRunAt = computeNextRun(schedule, now);
+      schedules.set(schedule.scheduleId, schedule);
+    }
+  }
+
+  schedulerTimer = setInterval(() => runDueSchedules(), SCHEDULER_INTERVAL_MS);
+  logger.info(`Scheduler started with ${schedules.keys().length} schedules`);
+}
+
+/**
+ * Stop the in-process scheduler
+ */
+export function stopScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+    logger.info('Scheduler stopped');
+  }
+}
@@ -1,32 +1,169 @@
-import { io } from '../index';
-import { getJob, updateJobStatus } from './job-storage.service';
-import { JobStatus, ScrapingResult, StoreData, ProductData } from '../types';
+import { Browser, Page } from 'playwright';
+import {
+  getJob,
+  updateJobStatus,
+  saveTaskResult,
+  getPendingProducts,
+  sortJobResults,
+  updateJobProgress,
+  summarizeProgress,
+} from './job-storage.service';
+import { emitJobEvent } from './realtime.service';
+import { recordPricePoint } from './price-history.service';
+import { processJobAlerts } from './alert.service';
+import {
+  launchBrowser,
+  createContext,
+  createPage,
+  navigateToUrl,
+  closeContext,
+  closeBrowser,
+} from './browser.service';
+import { locateSearch, isSearchAvailable, submitSearch, SearchTarget } from './ai-navigator.service';
+import {
+  extractProductPrice,
+  buildSearchQuery,
+  tokenize,
+  ExtractedPrice,
+  resolvePricing,
+} from './price-extractor.service';
+import { getAdapterForUrl, extractAdapterProducts } from '../adapters';
+import { scoreFoundProduct, isExactMatchScore } from '../matching';
+import {
+  JobStatus,
+  ScrapingResult,
+  StoreData,
+  ProductData,
+  StoreAdapter,
+  AdapterProduct,
+  TaskProgress,
+  JobProgress,
+  PromoPricing,
+} from '../types';
+import { config } from '../config';
+import { retry, sleep, addJitter } from '../utils/retry';
+import { runWithConcurrency } from '../utils/concurrency';
+import { parsePackSize, computeUnitPrice, parseUnitPrice } from '../utils/pack-size';
 import { logger } from '../utils/logger';
 
+// Number of recent task durations averaged for the ETA
+const ETA_WINDOW = 20;
+
+interface ProgressTracker {
+  progress: JobProgress;
+  /** Tasks of this run not finished yet */
+  remainingTasks: number;
+  recentDurations: number[];
+  workers: number;
+}
+
+interface ActiveRun {
+  controller: AbortController;
+  finished: Promise<void>;
+  paused: boolean;
+  resumeWaiters: Array<() => void>;
+}
+
+// Scrape runs currently in progress, by job ID
+const activeRuns = new Map<string, ActiveRun>();
+
 /**
- * Sleep helper
+ * Check whether a job has a scrape run in progress
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function isScraping(jobId: string): boolean {
+  return activeRuns.has(jobId);
+}
+
+/**
+ * Stop a running scrape between products and wait for it to wind down.
+ * Resolves false if the run is still going after the timeout.
+ */
+export async function cancelScraping(
+  jobId: string,
+  timeoutMs: number = config.scraping.scrapeTimeoutMs
+): Promise<boolean> {
+  const run = activeRuns.get(jobId);
+  if (!run) {
+    return true;
+  }
+
+  logger.info(`Cancelling scraping job: ${jobId}`);
+  run.controller.abort();
+  releaseWaiters(run);
+
+  return Promise.race([
+    run.finished.then(() => true),
+    sleep(timeoutMs).then(() => false),
+  ]);
 }
 
 /**
- * Add random jitter to delays (for realistic timing)
+ * Pause a running scrape after the products currently in flight
  */
-function addJitter(delayMs: number): number {
-  const jitter = Math.random() * 500; // 0-500ms random jitter
-  return delayMs + jitter;
+export function pauseScraping(jobId: string): boolean {
+  const run = activeRuns.get(jobId);
+  if (!run || run.paused || run.controller.signal.aborted) {
+    return false;
+  }
+
+  run.paused = true;
+  updateJobStatus(jobId, JobStatus.PAUSED);
+
+  emitJobEvent(jobId, 'job-status', {
+    jobId,
+    status: JobStatus.PAUSED,
+    message: 'Scraping paused',
+  });
+
+  return true;
 }
 
 /**
- * Start scraping job (MOCK IMPLEMENTATION)
+ * Resume a paused scrape
+ */
+export function resumeScraping(jobId: string): boolean {
+  const run = activeRuns.get(jobId);
+  if (!run || !run.paused) {
+    return false;
+  }
+
+  run.paused = false;
+  updateJobStatus(jobId, JobStatus.PROCESSING);
+  releaseWaiters(run);
+
+  emitJobEvent(jobId, 'job-status', {
+    jobId,
+    status: JobStatus.PROCESSING,
+    message: 'Scraping resumed',
+  });
+
+  return true;
+}
+
+/**
+ * Wake every worker waiting on a paused run
+ */
+function releaseWaiters(run: ActiveRun): void {
+  const waiters = run.resumeWaiters.splice(0);
+  waiters.forEach((resolve) => resolve());
+}
+
+/**
+ * Wait while the run is paused (returns immediately if it is not, or once cancelled)
+ */
+async function waitWhilePaused(run: ActiveRun): Promise<void> {
+  while (run.paused && !run.controller.signal.aborted) {
+    await new Promise<void>((resolve) => run.resumeWaiters.push(resolve));
+  }
+}
+
+/**
+ * Start scraping job
  *
- * NOTE: This is a mock implementation that returns placeholder data.
- * Browser automation with Playwright requires system dependencies not available on Azure App Service.
- * Real scraping will be implemented in Phase 5 using one of these approaches:
- * - Azure Container Apps with Docker (Playwright pre-installed)
- * - Azure Functions with Puppeteer
- * - External scraping service
+ * Scrapes up to `maxConcurrentBrowsers` stores in parallel, each in its own browser
+ * context. Within a store, products are searched one after another.
+ * Each store x product result is checkpointed as it finishes; tasks that already
+ * succeeded in an earlier run are skipped, so a failed job can be resumed.
  */
 export async function startScraping(jobId: string): Promise<void> {
   const job = getJob(jobId);
@@ -35,170 +172,497 @@ export async function startScraping(jobId: string): Promise<void> {
     throw new Error(`Job ${jobId} not found`);
   }
 
-  logger.info(`Starting MOCK scraping job: ${jobId} (placeholder data only)`);
+  const concurrency = config.scraping.maxConcurrentBrowsers;
+
+  let markFinished!: () => void;
+  const run: ActiveRun = {
+    controller: new AbortController(),
+    finished: new Promise<void>((resolve) => {
+      markFinished = resolve;
+    }),
+    paused: false,
+    resumeWaiters: [],
+  };
+  activeRuns.set(jobId, run);
+
+  logger.info(`Starting scraping job: ${jobId} (${concurrency} concurrent stores)`);
   updateJobStatus(jobId, JobStatus.PROCESSING);
 
-  // Emit initial progress
-  emitProgress(jobId, {
-    status: 'processing',
-    progress: 0,
-    message: 'Initializing scraper (mock mode)...',
+  emitJobEvent(jobId, 'job-status', {
+    jobId,
+    status: JobStatus.PROCESSING,
+    message: 'Initializing scraper...',
   });
 
-  const results: ScrapingResult[] = [];
+  const totalStores = job.stores.length;
+  const totalTasks = totalStores * job.products.length;
 
-  try {
-    const totalStores = job.stores.length;
-    const totalProducts = job.products.length;
-    const totalTasks = totalStores * totalProducts;
-    let completedTasks = 0;
-
-    // Process each store
-    for (let storeIndex = 0; storeIndex < job.stores.length; storeIndex++) {
-      const store = job.stores[storeIndex];
-
-      logger.info(`Processing store ${storeIndex + 1}/${totalStores}: ${store.storeName}`);
-
-      emitProgress(jobId, {
-        status: 'processing',
-        progress: Math.round((completedTasks / totalTasks) * 100),
-        message: `Scraping ${store.storeName}...`,
-        currentStore: store.storeName,
-      });
+  // Only stores with tasks left to do (all of them on a first run)
+  const pendingStores = job.stores
+    .map((store) => ({ store, products: getPendingProducts(job, store) }))
+    .filter(({ products }) => products.length > 0);
+  const pendingTasks = pendingStores.reduce((count, { products }) => count + products.length, 0);
 
-      // Process each product for this store
-      for (let productIndex = 0; productIndex < job.products.length; productIndex++) {
-        const product = job.products[productIndex];
+  // Counts carry on from earlier runs; a failed task run again replaces its earlier outcome
+  const storedResults = job.results || [];
 
-        logger.info(`  Product ${productIndex + 1}/${totalProducts}: ${product.productName}`);
+  const tracker: ProgressTracker = {
+    progress: {
+      totalTasks,
+      completedTasks: storedResults.length,
+      failedTasks: storedResults.filter((result) => result.errorMessage).length,
+      startedAt: new Date(),
+    },
+    remainingTasks: pendingTasks,
+    recentDurations: [],
+    workers: Math.max(1, Math.min(concurrency, pendingStores.length)),
+  };
+  updateJobProgress(jobId, tracker.progress);
 
-        // Generate mock result
-        const result = generateMockResult(store, product);
-        results.push(result);
+  if (storedResults.length > 0) {
+    logger.info(`Resuming job ${jobId}: ${pendingTasks} of ${totalTasks} tasks left`);
+  }
 
-        completedTasks++;
+  try {
+    const browser = await launchBrowser();
 
-        // Emit progress update
-        emitProgress(jobId, {
-          status: 'processing',
-          progress: Math.round((completedTasks / totalTasks) * 100),
-          message: `Scraped ${product.productName} from ${store.storeName}`,
-          currentStore: store.storeName,
-          currentProduct: product.productName,
-        });
+    try {
+      await runWithConcurrency(pendingStores, concurrency, async ({ store, products }, storeIndex) => {
+        // Stores after the first wave wait before starting, like a pause between stores
+        if (storeIndex >= concurrency) {
+          await sleep(addJitter(config.scraping.delayBetweenStoresMs));
+        }
 
-        // Simulate realistic delay between products
-        if (productIndex < job.products.length - 1) {
-          await sleep(addJitter(500)); // Much faster than real scraping
+        await waitWhilePaused(run);
+        if (run.controller.signal.aborted) {
+          return;
         }
-      }
 
-      // Simulate realistic delay between stores
-      if (storeIndex < job.stores.length - 1) {
-        await sleep(addJitter(1000));
-      }
+        logger.info(`Processing store ${storeIndex + 1}/${pendingStores.length}: ${store.storeName}`);
+        await scrapeStore(jobId, browser, store, products, tracker, run);
+      });
+    } finally {
+      await closeBrowser();
+      sortJobResults(jobId);
     }
 
-    // Update job with results
-    job.results = results;
-    updateJobStatus(jobId, JobStatus.COMPLETED);
+    if (run.controller.signal.aborted) {
+      const resultsCount = finishRun(jobId, tracker, JobStatus.CANCELLED);
+      logger.info(`Scraping job ${jobId} cancelled after ${resultsCount} results`);
+      return;
+    }
 
-    emitProgress(jobId, {
-      status: 'completed',
-      progress: 100,
-      message: `Completed! Generated ${results.length} mock results from ${totalStores} stores.`,
-      results,
-    });
+    const resultsCount = finishRun(jobId, tracker, JobStatus.COMPLETED);
+    logger.info(`Scraping job ${jobId} completed successfully. Total results: ${resultsCount}`);
 
-    logger.info(`Mock scraping job ${jobId} completed successfully. Total results: ${results.length}`);
+    // Alerts are raised for completed jobs only, once the status is saved;
+    // the webhook call carries on in the background
+    processJobAlerts(jobId).catch((error) => {
+      logger.error(`Price alerts failed for job ${jobId}`, { error: error.message });
+    });
   } catch (error) {
+    // Page operations interrupted by cancellation surface as errors
+    if (run.controller.signal.aborted) {
+      const resultsCount = finishRun(jobId, tracker, JobStatus.CANCELLED);
+      logger.info(`Scraping job ${jobId} cancelled after ${resultsCount} results`);
+      return;
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const errorStack = error instanceof Error ? error.stack : '';
 
     logger.error(`Scraping job ${jobId} failed: ${errorMessage}`, { stack: errorStack });
-    updateJobStatus(jobId, JobStatus.FAILED, errorMessage);
+    finishRun(jobId, tracker, JobStatus.FAILED, errorMessage);
+
+    throw error;
+  } finally {
+    activeRuns.delete(jobId);
+    markFinished();
+  }
+}
+
+/**
+ * Record the end of a scrape run and notify subscribers.
+ * Results checkpointed so far are kept whatever the final status.
+ * Returns the number of results on the job.
+ */
+function finishRun(jobId: string, tracker: ProgressTracker, status: JobStatus, error?: string): number {
+  tracker.progress = {
+    ...tracker.progress,
+    currentStore: undefined,
+    currentProduct: undefined,
+    finishedAt: new Date(),
+    estimatedCompletionAt: undefined,
+  };
+  updateJobProgress(jobId, tracker.progress);
+  updateJobStatus(jobId, status, error);
+
+  const resultsCount = getJob(jobId)?.results?.length || 0;
+
+  emitJobEvent(jobId, 'job-finished', {
+    jobId,
+    status,
+    resultsCount,
+    error,
+  });
+
+  return resultsCount;
+}
+
+/**
+ * Record that a task has started
+ */
+function recordTaskStarted(jobId: string, tracker: ProgressTracker, store: StoreData, product: ProductData): void {
+  tracker.progress.currentStore = store.storeName;
+  tracker.progress.currentProduct = product.productName;
+  updateJobProgress(jobId, tracker.progress);
+}
+
+/**
+ * Record a finished task and refresh the rolling ETA.
+ * A task that replaces an earlier result was already counted as completed.
+ * Each worker spends the task time plus the delay between products per task,
+ * and `workers` stores are scraped side by side.
+ */
+function recordTaskFinished(
+  jobId: string,
+  tracker: ProgressTracker,
+  result: ScrapingResult,
+  replaced: ScrapingResult | undefined,
+  durationMs: number
+): void {
+  const progress = tracker.progress;
+
+  if (!replaced) {
+    progress.completedTasks++;
+  }
+  if (replaced?.errorMessage) {
+    progress.failedTasks--;
+  }
+  if (result.errorMessage) {
+    progress.failedTasks++;
+  }
+  tracker.remainingTasks--;
+
+  tracker.recentDurations.push(durationMs);
+  if (tracker.recentDurations.length > ETA_WINDOW) {
+    tracker.recentDurations.shift();
+  }
+
+  const averageTaskMs = tracker.recentDurations.reduce((sum, ms) => sum + ms, 0) / tracker.recentDurations.length;
+  const etaMs = (tracker.remainingTasks * (averageTaskMs + config.scraping.delayBetweenProductsMs)) / tracker.workers;
+
+  progress.averageTaskMs = Math.round(averageTaskMs);
+  progress.estimatedCompletionAt = new Date(Date.now() + etaMs);
+  updateJobProgress(jobId, progress);
+}
+
+/**
+ * Scrape products from one store in a dedicated browser context.
+ * Each result is checkpointed as soon as the product finishes.
+ * Waits between products while paused and stops once cancelled.
+ */
+async function scrapeStore(
+  jobId: string,
+  browser: Browser,
+  store: StoreData,
+  products: ProductData[],
+  tracker: ProgressTracker,
+  run: ActiveRun
+): Promise<void> {
+  const { signal } = run.controller;
+
+  const context = await createContext(browser);
+  let contextClosed = false;
+  const closeStoreContext = async (): Promise<void> => {
+    if (!contextClosed) {
+      contextClosed = true;
+      await closeContext(context);
+    }
+  };
+
+  // Closing the context on cancel makes any in-flight page operation fail fast
+  const onAbort = (): void => {
+    closeStoreContext().catch(() => undefined);
+  };
+  signal.addEventListener('abort', onAbort);
+
+  try {
+    const page = await createPage(context);
+    const adapter = config.scraping.useStoreAdapters ? getAdapterForUrl(store.websiteUrl) : undefined;
+    const searchTarget = adapter ? null : await openStore(page, store);
+    const canScrape = Boolean(adapter || searchTarget);
 
-    emitProgress(jobId, {
-      status: 'failed',
-      progress: 0,
-      message: `Job failed: ${errorMessage}`,
-      error: errorMessage,
+    if (adapter) {
+      logger.info(`Using ${adapter.name} adapter for ${store.storeName}`);
+    }
+
+    for (let productIndex = 0; productIndex < products.length; productIndex++) {
+      await waitWhilePaused(run);
+
+      if (signal.aborted) {
+        logger.info(`  [${store.storeName}] Stopping, job was cancelled`);
+        break;
+      }
+
+      const product = products[productIndex];
+
+      logger.info(`  [${store.storeName}] Product ${productIndex + 1}/${products.length}: ${product.productName}`);
+
+      recordTaskStarted(jobId, tracker, store, product);
+      const taskStartedAt = Date.now();
+
+      emitJobEvent(jobId, 'task-started', {
+        jobId,
+        storeName: store.storeName,
+        productId: product.productId,
+        productName: product.productName,
+        progress: getTaskProgress(tracker),
+      });
+
+      let result: ScrapingResult;
+      if (adapter) {
+        result = await scrapeProductWithAdapter(page, store, adapter, product);
+      } else if (searchTarget) {
+        result = await scrapeProduct(page, store, searchTarget, product);
+      } else {
+        result = buildErrorResult(store, product, `Could not locate a search box on ${store.websiteUrl}`);
+      }
+
+      // A result cut short by cancellation is not a real outcome
+      if (signal.aborted) {
+        break;
+      }
+
+      const replaced = saveTaskResult(jobId, result);
+      recordPricePoint(jobId, result);
+      recordTaskFinished(jobId, tracker, result, replaced, Date.now() - taskStartedAt);
+
+      // Progress is aggregated across all stores
+      emitJobEvent(jobId, 'task-completed', {
+        jobId,
+        result,
+        progress: getTaskProgress(tracker),
+      });
+
+      // Delay between products
+      if (canScrape && productIndex < products.length - 1) {
+        await sleep(addJitter(config.scraping.delayBetweenProductsMs));
+      }
+    }
+
+    if (!signal.aborted) {
+      emitJobEvent(jobId, 'store-finished', {
+        jobId,
+        storeName: store.storeName,
+        progress: getTaskProgress(tracker),
+      });
+    }
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+    await closeStoreContext();
+  }
+}
+
+/**
+ * Navigate to a store's home page and locate its search box.
+ * Returns null when the store cannot be opened or has no usable search box.
+ */
+async function openStore(page: Page, store: StoreData): Promise<SearchTarget | null> {
+  try {
+    await retry(() => navigateToUrl(page, store.websiteUrl), {
+      maxRetries: config.scraping.maxRetries,
+    });
+    return await locateSearch(page, store.storeName);
+  } catch (error) {
+    logger.error(`Failed to open store ${store.storeName}`, {
+      url: store.websiteUrl,
+      error: error instanceof Error ? error.message : 'Unknown error',
     });
+    return null;
+  }
+}
 
-    throw error;
+/**
+ * Search a store for a single product and extract its price
+ */
+async function scrapeProduct(
+  page: Page,
+  store: StoreData,
+  searchTarget: SearchTarget,
+  product: ProductData
+): Promise<ScrapingResult> {
+  try {
+    const extracted = await retry(async () => {
+      // Return to the home page if the results page has no search box
+      if (!(await isSearchAvailable(page, searchTarget))) {
+        await navigateToUrl(page, store.websiteUrl);
+      }
+
+      await submitSearch(page, searchTarget, buildSearchQuery(product));
+      return extractProductPrice(page, product);
+    }, {
+      maxRetries: config.scraping.maxRetries,
+    });
+
+    return await buildResult(store, product, extracted);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to scrape ${product.productName} from ${store.storeName}: ${errorMessage}`);
+    return buildErrorResult(store, product, errorMessage);
   }
 }
 
 /**
- * Generate mock scraping result with realistic placeholder data
+ * Search a store for a single product using its store adapter
  */
-function generateMockResult(store: StoreData, product: ProductData): ScrapingResult {
-  // Vary results to make it more realistic
-  const scenarios = [
-    // 70% - Found with price
-    {
-      weight: 0.7,
-      result: {
-        foundProductName: `${product.productName} - ${product.brand}`,
-        price: 9.99 + Math.random() * 50, // $9.99 - $59.99
-        currency: 'NZD',
-        availability: Math.random() > 0.2 ? 'In Stock' : 'Low Stock',
-        isExactMatch: Math.random() > 0.3,
-        replacementDescription: undefined,
-      },
-    },
-    // 20% - Found but different variant
-    {
-      weight: 0.2,
-      result: {
-        foundProductName: `${product.productName} (Alternative Size)`,
-        price: 9.99 + Math.random() * 50,
-        currency: 'NZD',
-        availability: 'In Stock',
-        isExactMatch: false,
-        replacementDescription: 'Similar product found - size or variant may differ',
-      },
-    },
-    // 10% - Not found
-    {
-      weight: 0.1,
-      result: {
-        foundProductName: undefined,
-        price: undefined,
+async function scrapeProductWithAdapter(
+  page: Page,
+  store: StoreData,
+  adapter: StoreAdapter,
+  product: ProductData
+): Promise<ScrapingResult> {
+  try {
+    const candidates = await retry(async () => {
+      const searchUrl = adapter.buildSearchUrl(store.websiteUrl, buildSearchQuery(product));
+      await navigateToUrl(page, searchUrl, { waitForSelector: adapter.resultListSelector });
+      return extractAdapterProducts(page, adapter);
+    }, {
+      maxRetries: config.scraping.maxRetries,
+    });
+
+    const best = pickBestCandidate(product, candidates);
+
+    return await buildResult(store, product, best
+      ? {
+        foundProductName: best.name,
+        price: best.price,
         currency: 'NZD',
-        availability: 'Out of Stock',
-        isExactMatch: false,
-        replacementDescription: 'Product not available at this store',
-      },
-    },
-  ];
-
-  // Weighted random selection
-  const rand = Math.random();
-  let cumulative = 0;
-  let selectedScenario = scenarios[0].result;
-
-  for (const scenario of scenarios) {
-    cumulative += scenario.weight;
-    if (rand <= cumulative) {
-      selectedScenario = scenario.result;
-      break;
+        availability: best.availability,
+        unitPriceText: best.unitPrice,
+        regularPrice: best.regularPrice,
+        promoPrice: best.promoPrice,
+        memberPrice: best.memberPrice,
+        multiBuy: best.multiBuy,
+        promoEndDate: best.promoEndDate,
+      }
+      : { availability: 'Out of Stock' });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to scrape ${product.productName} from ${store.storeName}: ${errorMessage}`);
+    return buildErrorResult(store, product, errorMessage);
+  }
+}
+
+/**
+ * Pick the search result sharing the most tokens with the product query
+ */
+function pickBestCandidate(product: ProductData, candidates: AdapterProduct[]): AdapterProduct | undefined {
+  const queryTokens = new Set(tokenize(buildSearchQuery(product)));
+
+  let best: AdapterProduct | undefined;
+  let bestScore = 0;
+
+  for (const candidate of candidates) {
+    const score = tokenize(candidate.name).filter((token) => queryTokens.has(token)).length;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Build a scraping result from extracted price information
+ */
+async function buildResult(store: StoreData, product: ProductData, raw: ExtractedPrice): Promise<ScrapingResult> {
+  const extracted = { ...raw, ...resolvePricing(raw) };
+  const found = extracted.foundProductName !== undefined && extracted.price !== undefined;
+  const match = found ? await scoreFoundProduct(product, extracted.foundProductName!) : undefined;
+  // A found name closer to another surveyed product is that product, not this one
+  const exact = match !== undefined && isExactMatchScore(match.score) && !match.closerProductId;
+
+  let replacementDescription: string | undefined;
+  if (!found) {
+    replacementDescription = 'Product not available at this store';
+  } else if (!exact) {
+    replacementDescription = `Closest match: ${extracted.foundProductName}`;
+  }
+
+  return {
+    productId: product.productId,
+    productName: product.productName,
+    brand: product.brand,
+    storeName: store.storeName,
+    foundProductName: extracted.foundProductName,
+    price: extracted.price,
+    currency: extracted.currency || 'NZD',
+    availability: extracted.availability,
+    ...(found ? getPromoPricing(extracted) : {}),
+    ...(found ? getUnitPricing(product, extracted, exact) : {}),
+    isExactMatch: exact,
+    matchScore: match?.score,
+    matchBreakdown: match?.breakdown,
+    replacementDescription,
+  };
+}
+
+/**
+ * Keep only the promotional fields that were found, so plain results stay compact
+ */
+function getPromoPricing(extracted: PromoPricing): PromoPricing {
+  const { regularPrice, promoPrice, memberPrice, multiBuy, promoEndDate } = extracted;
+  const pricing: PromoPricing = { regularPrice, promoPrice, memberPrice, multiBuy, promoEndDate };
+
+  for (const key of Object.keys(pricing) as (keyof PromoPricing)[]) {
+    if (pricing[key] === undefined) {
+      delete pricing[key];
     }
   }
 
+  return pricing;
+}
+
+/**
+ * Work out pack size and price per base unit for a found product.
+ * The size comes from the found product name; our own description is only
+ * trusted for exact matches, since a replacement may come in another size.
+ * The store's displayed unit price is the last resort.
+ */
+function getUnitPricing(
+  product: ProductData,
+  extracted: ExtractedPrice,
+  exact: boolean
+): Pick<ScrapingResult, 'packSize' | 'unit' | 'unitPrice'> {
+  const packSize = parsePackSize(extracted.foundProductName)
+    ?? (exact ? parsePackSize(product.description) ?? parsePackSize(product.productName) : undefined);
+
+  if (packSize && extracted.price !== undefined) {
+    return { packSize: packSize.label, ...computeUnitPrice(extracted.price, packSize) };
+  }
+
+  return { ...parseUnitPrice(extracted.unitPriceText) };
+}
+
+/**
+ * Build a result for a product that could not be scraped
+ */
+function buildErrorResult(store: StoreData, product: ProductData, errorMessage: string): ScrapingResult {
   return {
     productId: product.productId,
     productName: product.productName,
     brand: product.brand,
     storeName: store.storeName,
-    ...selectedScenario,
+    isExactMatch: false,
+    errorMessage,
   };
 }
 
 /**
- * Emit progress update via WebSocket
+ * Snapshot task progress for real-time events
  */
-function emitProgress(jobId: string, data: any): void {
-  io.emit(`job:${jobId}:progress`, data);
-  logger.debug(`Emitted progress for job ${jobId}:`, data);
+function getTaskProgress(tracker: ProgressTracker): TaskProgress {
+  return summarizeProgress(tracker.progress);
 }
@@ -0,0 +1,76 @@
+import { randomUUID } from 'crypto';
+import { saveJob } from './job-storage.service';
+import { getMatchingEngine } from '../matching';
+import { isCatalogProduct } from './catalog.service';
+import { JobData, JobStatus, StoreData, ProductData, UploadColumnMapping, UploadReport } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Values that appear more than once, in order of first repeat
+ */
+function repeatedValues(values: string[]): string[] {
+  const seen = new Set<string>();
+  const repeated = new Set<string>();
+  for (const value of values) {
+    if (seen.has(value)) {
+      repeated.add(value);
+    }
+    seen.add(value);
+  }
+  return [...repeated];
+}
+
+/**
+ * Describe store names and product IDs listed more than once. A job's results
+ * are keyed by store name and product ID, so repeats would overwrite each other.
+ */
+function findDuplicateEntries(stores: StoreData[], products: ProductData[]): string[] {
+  return [
+    ...repeatedValues(stores.map((store) => store.storeName)).map((name) => `Store "${name}" is listed more than once`),
+    ...repeatedValues(products.map((product) => product.productId)).map((id) => `ProductId "${id}" is listed more than once`),
+  ];
+}
+
+/**
+ * Create a survey job for a store and product list and index its products.
+ * Shared by uploads and scheduled surveys. Throws if a store name or product ID repeats.
+ */
+export function createSurveyJob(
+  stores: StoreData[],
+  products: ProductData[],
+  options: { scheduleId?: string; columnMapping?: UploadColumnMapping; uploadReport?: UploadReport } = {}
+): JobData {
+  const duplicates = findDuplicateEntries(stores, products);
+  if (duplicates.length > 0) {
+    throw new Error(`Cannot create a job with duplicate entries: ${duplicates.join('; ')}`);
+  }
+
+  const job: JobData = {
+    jobId: randomUUID(),
+    stores,
+    products,
+    status: JobStatus.UPLOADED,
+    createdAt: new Date(),
+    scheduleId: options.scheduleId,
+    columnMapping: options.columnMapping,
+    uploadReport: options.uploadReport,
+  };
+
+  saveJob(job);
+
+  // Catalog products are indexed from the catalog, which stays the source of truth
+  const unindexed = products.filter((product) => !isCatalogProduct(product.productId));
+  const engine = getMatchingEngine();
+  if (unindexed.length === 0 || !engine.isAvailable()) {
+    return job;
+  }
+
+  // Index products for matching (async, don't wait)
+  engine.indexProducts(unindexed).catch((error) => {
+    logger.error(`Failed to index products for job ${job.jobId}:`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  });
+
+  return job;
+}
@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import { RecordStore, RecordReviver } from './record-store';
+import { logger } from '../utils/logger';
+
+interface StoredRecord {
+  key: string;
+  value: unknown;
+}
+
+// Changes to a record within this window are written to disk together
+const WRITE_DELAY_MS = 200;
+
+/**
+ * Record store persisted as one JSON file per record.
+ * Records are cached in memory, so reads stay synchronous and survive a process
+ * restart. Writes happen in the background: a record changed many times in quick
+ * succession (e.g. a job's progress) is serialized and written once.
+ */
+export class FileRecordStore<T> implements RecordStore<T> {
+  private records = new Map<string, T>();
+  /** Keys with a write scheduled but not started */
+  private scheduled = new Map<string, NodeJS.Timeout>();
+  /** Last queued disk operation per key; operations on a key run one at a time */
+  private queues = new Map<string, Promise<void>>();
+
+  constructor(
+    private directory: string,
+    private revive: RecordReviver<T> = (raw) => raw as T
+  ) {
+    fs.mkdirSync(directory, { recursive: true });
+    this.load();
+  }
+
+  get(key: string): T | undefined {
+    return this.records.get(key);
+  }
+
+  set(key: string, value: T): void {
+    this.records.set(key, value);
+
+    if (!this.scheduled.has(key)) {
+      this.scheduled.set(key, setTimeout(() => {
+        this.scheduled.delete(key);
+        this.enqueue(key, () => this.write(key));
+      }, WRITE_DELAY_MS));
+    }
+  }
+
+  delete(key: string): boolean {
+    if (!this.records.delete(key)) {
+      return false;
+    }
+
+    clearTimeout(this.scheduled.get(key));
+    this.scheduled.delete(key);
+    this.enqueue(key, () => fs.promises.rm(this.filePath(key), { force: true }));
+    return true;
+  }
+
+  has(key: string): boolean {
+    return this.records.has(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  values(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  clear(): void {
+    for (const key of this.keys()) {
+      this.delete(key);
+    }
+  }
+
+  async flush(): Promise<void> {
+    for (const [key, timer] of this.scheduled) {
+      clearTimeout(timer);
+      this.enqueue(key, () => this.write(key));
+    }
+    this.scheduled.clear();
+
+    await Promise.all(this.queues.values());
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  /**
+   * Run a disk operation for a key after the ones already queued for it.
+   * Failures are logged; the cached record stays current either way.
+   */
+  private enqueue(key: string, operation: () => Promise<void>): void {
+    const queued = (this.queues.get(key) ?? Promise.resolve())
+      .then(operation)
+      .catch((error) => {
+        logger.error(`Failed to persist record ${key}`, {
+          directory: this.directory,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      })
+      .then(() => {
+        if (this.queues.get(key) === queued) {
+          this.queues.delete(key);
+        }
+      });
+
+    this.queues.set(key, queued);
+  }
+
+  /**
+   * Write the current value of a record, unless it has been deleted since
+   */
+  private async write(key: string): Promise<void> {
+    if (!this.records.has(key)) {
+      return;
+    }
+
+    const filePath = this.filePath(key);
+    const tempPath = `${filePath}.tmp`;
+    const stored: StoredRecord = { key, value: this.records.get(key) };
+
+    // Write to a temp file and rename so a crash never leaves a half-written record
+    await fs.promises.writeFile(tempPath, JSON.stringify(stored));
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  private load(): void {
+    const files = fs.readdirSync(this.directory).filter((file) => file.endsWith('.json'));
+
+    for (const file of files) {
+      try {
+        const stored = JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf-8')) as StoredRecord;
+        this.records.set(stored.key, this.revive(stored.value));
+      } catch (error) {
+        logger.error(`Failed to load record from ${file}`, {
+          directory: this.directory,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    logger.info(`Loaded ${this.records.size} records from ${this.directory}`);
+  }
+}
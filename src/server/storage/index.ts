@@ -0,0 +1,29 @@
+import path from 'path';
+import { config } from '../config';
+import { RecordStore, RecordReviver } from './record-store';
+import { MemoryRecordStore } from './memory-record-store';
+import { FileRecordStore } from './file-record-store';
+
+export type { RecordStore, RecordReviver };
+
+// Every store created, so pending writes can be flushed on shutdown
+const createdStores: RecordStore<unknown>[] = [];
+
+/**
+ * Create a record store for a collection using the configured persistence backend
+ */
+export function createRecordStore<T>(collection: string, revive?: RecordReviver<T>): RecordStore<T> {
+  const store = config.persistence.backend === 'file'
+    ? new FileRecordStore<T>(path.resolve(config.persistence.dataDir, collection), revive)
+    : new MemoryRecordStore<T>();
+
+  createdStores.push(store);
+  return store;
+}
+
+/**
+ * Wait for the pending writes of every record store
+ */
+export async function flushRecordStores(): Promise<void> {
+  await Promise.all(createdStores.map((store) => store.flush()));
+}
@@ -0,0 +1,38 @@
+import { RecordStore } from './record-store';
+
+/**
+ * Record store kept in process memory (lost on restart)
+ */
+export class MemoryRecordStore<T> implements RecordStore<T> {
+  private records = new Map<string, T>();
+
+  get(key: string): T | undefined {
+    return this.records.get(key);
+  }
+
+  set(key: string, value: T): void {
+    this.records.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    return this.records.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.records.has(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  values(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  async flush(): Promise<void> {}
+}
@@ -0,0 +1,20 @@
+/**
+ * Key-value store for persisted records (jobs, history, schedules, ...)
+ */
+export interface RecordStore<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  delete(key: string): boolean;
+  has(key: string): boolean;
+  keys(): string[];
+  values(): T[];
+  clear(): void;
+  /** Resolve once every change so far is persisted */
+  flush(): Promise<void>;
+}
+
+/**
+ * Converts a deserialized record back into its runtime shape (e.g. revives Dates),
+ * throwing when it is not a valid record
+ */
+export type RecordReviver<T> = (raw: unknown) => T;
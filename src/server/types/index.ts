@@ -1,3 +1,16 @@
+import {
+  ColumnMapping,
+  JobStatus,
+  PromoPricing,
+  ScrapingResult,
+  SizeUnit,
+  TaskProgress,
+  UploadReport,
+} from '../../shared/types';
+
+// Types shared with the client (upload reports, results, comparisons, real-time events)
+export * from '../../shared/types';
+
 // Core data structures
 
 export interface StoreData {
@@ -12,10 +25,25 @@ export interface ProductData {
   brand: string;
 }
 
-export interface ValidationError {
-  row: number;
-  field: string;
-  message: string;
+export interface CatalogStore extends StoreData {
+  storeId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CatalogProduct extends ProductData {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CatalogImportResult {
+  created: number;
+  updated: number;
+}
+
+export interface UploadColumnMapping {
+  stores: ColumnMapping;
+  products: ColumnMapping;
 }
 
 export interface ParsedData {
@@ -28,6 +56,7 @@ export interface UploadResponse {
   stores: number;
   products: number;
   message: string;
+  report?: UploadReport;
 }
 
 export interface JobData {
@@ -37,26 +66,151 @@ export interface JobData {
   status: JobStatus;
   createdAt: Date;
   results?: ScrapingResult[];
+  progress?: JobProgress;
+  /** Schedule that created the job, if any */
+  scheduleId?: string;
+  /** Columns the uploaded files were read from */
+  columnMapping?: UploadColumnMapping;
+  /** Row-level validation outcome of the upload that created the job */
+  uploadReport?: UploadReport;
+  /** Set once the job's results have been compared with the previous run */
+  alerts?: PriceAlert[];
+  error?: string;
+}
+
+export interface SurveySchedule {
+  scheduleId: string;
+  name: string;
+  /** Five-field cron expression, evaluated in server local time */
+  cron: string;
+  enabled: boolean;
+  stores: StoreData[];
+  products: ProductData[];
+  createdAt: Date;
+  updatedAt: Date;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  /** Most recent first */
+  runs: ScheduleRun[];
+}
+
+/** A schedule as listed, with counts in place of its store and product lists */
+export interface ScheduleSummary extends Omit<SurveySchedule, 'stores' | 'products' | 'runs'> {
+  stores: number;
+  products: number;
+  /** Most recent run, if any */
+  lastRun?: ScheduleRun;
+}
+
+export interface ScheduleRun {
+  runAt: Date;
+  trigger: 'cron' | 'manual';
+  /** Set when a job was created */
+  jobId?: string;
+  outcome: 'started' | 'skipped' | 'failed';
+  message?: string;
+}
+
+export interface JobProgress {
+  totalTasks: number;
+  /** Finished tasks, including failed ones */
+  completedTasks: number;
+  failedTasks: number;
+  currentStore?: string;
+  currentProduct?: string;
+  /** Start of the current (or last) scrape run */
+  startedAt?: Date;
+  finishedAt?: Date;
+  /** Rolling average over recent tasks */
+  averageTaskMs?: number;
+  estimatedCompletionAt?: Date;
+}
+
+export interface JobSummary {
+  jobId: string;
+  status: JobStatus;
+  createdAt: Date;
+  storeNames: string[];
+  stores: number;
+  products: number;
+  resultsCount: number;
+  exactMatches: number;
+  replacements: number;
+  failedTasks: number;
+  progress: TaskProgress;
   error?: string;
 }
 
-export enum JobStatus {
-  UPLOADED = 'uploaded',
-  PROCESSING = 'processing',
-  COMPLETED = 'completed',
-  FAILED = 'failed',
+/**
+ * One observation of a product's price at a store, taken from a job result
+ */
+export interface PricePoint extends PromoPricing {
+  jobId: string;
+  recordedAt: Date;
+  price?: number;
+  unitPrice?: number;
+  unit?: SizeUnit;
+  availability?: string;
+  foundProductName?: string;
+  isExactMatch: boolean;
+}
+
+export interface PriceHistory {
+  productId: string;
+  storeName: string;
+  /** Oldest first */
+  points: PricePoint[];
 }
 
-export interface ScrapingResult {
+export type PriceAlertType = 'price-rise' | 'price-drop' | 'out-of-stock' | 'new-replacement';
+
+export interface PriceAlert {
+  type: PriceAlertType;
   productId: string;
   productName: string;
-  brand: string;
   storeName: string;
+  message: string;
+  previousJobId: string;
+  previousPrice?: number;
+  price?: number;
+  changePercent?: number;
   foundProductName?: string;
+  /** When the alert was posted to the webhook; alerts already sent are not posted again */
+  sentAt?: Date;
+}
+
+export interface PriceChange {
+  productId: string;
+  storeName: string;
   price?: number;
-  currency?: string;
+  previousJobId: string;
+  previousRecordedAt: Date;
+  previousPrice?: number;
+  /** Absent when either price is unknown */
+  change?: number;
+  changePercent?: number;
+}
+
+// Store adapters
+
+export interface AdapterProduct extends PromoPricing {
+  name: string;
+  price?: number;
+  unitPrice?: string;
   availability?: string;
-  isExactMatch: boolean;
-  replacementDescription?: string;
-  errorMessage?: string;
+}
+
+export interface StoreAdapter {
+  /** Display name of the adapter */
+  name: string;
+  /** Hostnames handled by this adapter (without "www.") */
+  hostnames: string[];
+  /** Build the search results URL for a query */
+  buildSearchUrl(websiteUrl: string, query: string): string;
+  /** Selector matching each product tile in the search results */
+  resultListSelector: string;
+  /** Selectors, relative to a product tile, whose text is passed to parseProduct */
+  fieldSelectors: Record<string, string>;
+  /** Parse the text of one product tile into name, price and unit price */
+  parseProduct(fields: Record<string, string>): AdapterProduct | null;
 }
@@ -0,0 +1,34 @@
+/**
+ * Run an async worker over items with at most `limit` in flight at once.
+ * Results are returned in input order. If a worker throws, no further items are
+ * started and the first error is rethrown once every worker has settled.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  let nextIndex = 0;
+  let failed = false;
+
+  const runWorker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const outcomes = await Promise.allSettled(Array.from({ length: workerCount }, runWorker));
+  const rejection = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+  if (rejection) {
+    throw rejection.reason;
+  }
+  return results;
+}
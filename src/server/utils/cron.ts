@@ -0,0 +1,182 @@
+/**
+ * Minimal five-field cron expressions: minute hour day-of-month month day-of-week.
+ * Supports *, lists (1,15), ranges (1-5), steps (*\/15, 0-30/10), month and weekday
+ * names (jan, mon) and the @hourly, @daily, @weekly and @monthly shortcuts.
+ * Times are evaluated in the server's local time zone.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Restricted fields, for the day-of-month / day-of-week OR rule */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const SHORTCUTS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// Longest search for the next run (a little over four years covers Feb 29)
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+/**
+ * Parse one value of a field, accepting names for months and weekdays
+ */
+function parseValue(text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (nameIndex !== -1) {
+    return nameIndex + (spec.name === 'month' ? 1 : 0);
+  }
+
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid ${spec.name} value "${text}"`);
+  }
+
+  const value = parseInt(text, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} value ${value} is out of range ${spec.min}-${spec.max}`);
+  }
+
+  return value;
+}
+
+/**
+ * Expand one cron field into the set of values it matches
+ */
+function parseField(text: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [rangeText, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`Invalid ${spec.name} step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangeText === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangeText.includes('-')) {
+      const [from, to] = rangeText.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${rangeText}"`);
+      }
+    } else {
+      start = parseValue(rangeText, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing an Error that describes the first problem found
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = expression.trim().replace(/\s+/g, ' ');
+  const fields = (SHORTCUTS[normalized.toLowerCase()] || normalized).split(' ');
+
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Cron expression must have ${FIELDS.length} fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: normalized,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+/**
+ * Check whether a date's day matches the schedule.
+ * As in standard cron, when both day fields are restricted either one may match.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the first time strictly after `after` that matches the schedule
+ */
+export function getNextRun(schedule: CronSchedule, after: Date): Date {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let checked = 0; checked < MAX_SEARCH_MINUTES; checked++) {
+    if (!schedule.months.has(candidate.getMonth() + 1) || !matchesDay(schedule, candidate)) {
+      // Skip to the start of the next day
+      candidate.setHours(24, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (schedule.minutes.has(candidate.getMinutes())) {
+      return candidate;
+    }
+
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
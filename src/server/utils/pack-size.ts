@@ -0,0 +1,157 @@
+import { SizeUnit } from '../types';
+
+export interface PackSize {
+  /** Number of items in a multipack (1 for single items) */
+  count: number;
+  /** Total quantity in the base unit, e.g. 1.98 for 6 x 330ml */
+  quantity: number;
+  unit: SizeUnit;
+  /** Display label, e.g. "6 x 330ml" */
+  label: string;
+}
+
+export interface UnitPrice {
+  unitPrice: number;
+  unit: SizeUnit;
+}
+
+// Measured units and their factor to the base unit
+const MEASURES: Record<string, { unit: SizeUnit; factor: number; label: string }> = {
+  ml: { unit: 'L', factor: 0.001, label: 'ml' },
+  l: { unit: 'L', factor: 1, label: 'L' },
+  ltr: { unit: 'L', factor: 1, label: 'L' },
+  litre: { unit: 'L', factor: 1, label: 'L' },
+  litres: { unit: 'L', factor: 1, label: 'L' },
+  liter: { unit: 'L', factor: 1, label: 'L' },
+  liters: { unit: 'L', factor: 1, label: 'L' },
+  g: { unit: 'kg', factor: 0.001, label: 'g' },
+  gm: { unit: 'kg', factor: 0.001, label: 'g' },
+  gram: { unit: 'kg', factor: 0.001, label: 'g' },
+  grams: { unit: 'kg', factor: 0.001, label: 'g' },
+  kg: { unit: 'kg', factor: 1, label: 'kg' },
+  kgs: { unit: 'kg', factor: 1, label: 'kg' },
+  ea: { unit: 'each', factor: 1, label: 'ea' },
+  each: { unit: 'each', factor: 1, label: 'ea' },
+};
+
+const UNIT_PATTERN = 'ml|ltr|litres?|liters?|l|kgs?|kg|grams?|gm|g';
+// "1,000" groups thousands; a comma followed by one or two digits is a decimal comma ("1,5kg")
+const NUMBER_PATTERN = '(?:\\d{1,3}(?:,\\d{3})+(?!\\d)(?:\\.\\d+)?|\\d+(?:\\.\\d+|,\\d{1,2}(?!\\d))?)';
+const THOUSANDS_PATTERN = /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+
+// e.g. "6x330ml", "4 x 1.5L", "12 × 40g"
+const MULTIPACK_PATTERN = new RegExp(`(\\d+)\\s*[x×]\\s*(${NUMBER_PATTERN})\\s*(${UNIT_PATTERN})\\b`, 'i');
+// e.g. "2L", "500 ml", "1.5kg"
+const SIZE_PATTERN = new RegExp(`(${NUMBER_PATTERN})\\s*(${UNIT_PATTERN})\\b`, 'i');
+// e.g. "12pk", "6 pack", "pack of 10", "10 each"
+const COUNT_PATTERN = /(\d+)\s*(?:pk|pack|each|ea)\b|pack of (\d+)/i;
+// Loose items sold individually, e.g. "Avocado each"
+const EACH_PATTERN = /\b(?:each|ea)\b/i;
+// e.g. "$2.15 / 1L", "$1.43/100g", "$3.99 per kg", "$0.50 ea"
+const UNIT_PRICE_PATTERN = new RegExp(
+  `\\$\\s?(${NUMBER_PATTERN})\\s*(?:\\/|per)?\\s*(${NUMBER_PATTERN})?\\s*(${UNIT_PATTERN}|each|ea)\\b`,
+  'i'
+);
+
+/**
+ * Parse a number matched by NUMBER_PATTERN, which may group thousands or use a decimal comma
+ */
+function parseNumber(text: string): number {
+  return parseFloat(THOUSANDS_PATTERN.test(text) ? text.replace(/,/g, '') : text.replace(',', '.'));
+}
+
+/**
+ * Format a quantity without trailing zeros
+ */
+function formatQuantity(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Parse a pack size from product text such as "Standard original bottle 2L" or "Coke 6x330ml".
+ * Returns undefined when the text carries no recognisable size.
+ */
+export function parsePackSize(text: string | undefined): PackSize | undefined {
+  if (!text) {
+    return undefined;
+  }
+
+  const multipack = text.match(MULTIPACK_PATTERN);
+  if (multipack) {
+    const count = parseInt(multipack[1], 10);
+    const size = parseNumber(multipack[2]);
+    const measure = MEASURES[multipack[3].toLowerCase()];
+
+    if (count > 0 && size > 0) {
+      return {
+        count,
+        quantity: count * size * measure.factor,
+        unit: measure.unit,
+        label: `${count} x ${formatQuantity(size)}${measure.label}`,
+      };
+    }
+  }
+
+  const single = text.match(SIZE_PATTERN);
+  if (single) {
+    const size = parseNumber(single[1]);
+    const measure = MEASURES[single[2].toLowerCase()];
+
+    if (size > 0) {
+      return {
+        count: 1,
+        quantity: size * measure.factor,
+        unit: measure.unit,
+        label: `${formatQuantity(size)}${measure.label}`,
+      };
+    }
+  }
+
+  const counted = text.match(COUNT_PATTERN);
+  if (counted) {
+    const count = parseInt(counted[1] || counted[2], 10);
+
+    if (count > 0) {
+      return { count, quantity: count, unit: 'each', label: `${count} pack` };
+    }
+  }
+
+  if (EACH_PATTERN.test(text)) {
+    return { count: 1, quantity: 1, unit: 'each', label: 'each' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute the price per base unit (1L, 1kg or each)
+ */
+export function computeUnitPrice(price: number, packSize: PackSize): UnitPrice {
+  return {
+    unitPrice: Math.round((price / packSize.quantity) * 100) / 100,
+    unit: packSize.unit,
+  };
+}
+
+/**
+ * Parse a store's own unit price text such as "$1.43/100g" into a price per base unit
+ */
+export function parseUnitPrice(text: string | undefined): UnitPrice | undefined {
+  const match = text?.match(UNIT_PRICE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const price = parseNumber(match[1]);
+  const per = match[2] ? parseNumber(match[2]) : 1;
+  const measure = MEASURES[match[3].toLowerCase()];
+
+  if (!measure || per <= 0) {
+    return undefined;
+  }
+
+  return {
+    unitPrice: Math.round((price / (per * measure.factor)) * 100) / 100,
+    unit: measure.unit,
+  };
+}
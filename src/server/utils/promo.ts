@@ -0,0 +1,118 @@
+import { PromoPricing } from '../types';
+
+// Terms stated in promo text; the promo price itself is the price shown alongside them
+export type PromoTerms = Omit<PromoPricing, 'promoPrice'>;
+
+const AMOUNT = '\\$\\s?(\\d{1,5}(?:\\.\\d{1,2})?)';
+
+// e.g. "Was $4.50", "Usually $3.99", "Reg. price $2.00"
+const WAS_PATTERN = new RegExp(`\\b(?:was|usually|normally|reg(?:ular)?\\.?(?:\\s*price)?|non[- ]?club(?:\\s*price)?)\\s*:?\\s*${AMOUNT}`, 'i');
+// e.g. "Club Price $3.50", "Members $2.99", "Everyday Rewards price $4"
+const MEMBER_PATTERN = new RegExp(`\\b(?:club(?:card)?(?:\\s*deal|\\s*price)?|members?(?:\\s*price)?|onecard|everyday rewards(?:\\s*price)?)\\b\\s*:?\\s*${AMOUNT}`, 'i');
+// e.g. "2 for $5", "Any 3 for $10.00"
+const MULTI_BUY_PATTERN = new RegExp(`\\b(\\d{1,2})\\s*for\\s*${AMOUNT}`, 'i');
+// e.g. "Ends 12/03", "Valid until 12/03/2025", "Offer ends 5 March"
+const END_DATE_PREFIX = '\\b(?:ends?|until|till|valid (?:to|until)|offer ends|price valid until)\\s*:?\\s*';
+const NUMERIC_END_DATE_PATTERN = new RegExp(`${END_DATE_PREFIX}(\\d{1,2})[/.-](\\d{1,2})(?:[/.-](\\d{2,4}))?`, 'i');
+const NAMED_END_DATE_PATTERN = new RegExp(
+  `${END_DATE_PREFIX}(?:[a-z]+,?\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?(?:\\s+(\\d{4}))?`,
+  'i'
+);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Dates without a year this far in the past are taken to mean next year
+const MAX_PAST_END_DATE_DAYS = 180;
+
+/**
+ * Build an ISO date from NZ-style day/month/year parts.
+ * Without a year, the date nearest after the reference date is assumed.
+ */
+function toIsoDate(day: number, month: number, year: number | undefined, referenceDate: Date): string | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return undefined;
+  }
+
+  let fullYear = year !== undefined && year < 100 ? 2000 + year : year;
+  if (fullYear === undefined) {
+    fullYear = referenceDate.getUTCFullYear();
+    const candidate = Date.UTC(fullYear, month - 1, day);
+    if (referenceDate.getTime() - candidate > MAX_PAST_END_DATE_DAYS * 24 * 60 * 60 * 1000) {
+      fullYear++;
+    }
+  }
+
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCDate() !== day) {
+    return undefined;
+  }
+
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Parse a promotion end date from text such as "Ends 12/03" or "Offer ends 5 March 2025"
+ */
+export function parsePromoEndDate(text: string, referenceDate: Date = new Date()): string | undefined {
+  const numeric = text.match(NUMERIC_END_DATE_PATTERN);
+  if (numeric) {
+    return toIsoDate(
+      parseInt(numeric[1], 10),
+      parseInt(numeric[2], 10),
+      numeric[3] ? parseInt(numeric[3], 10) : undefined,
+      referenceDate
+    );
+  }
+
+  const named = text.match(NAMED_END_DATE_PATTERN);
+  if (named) {
+    return toIsoDate(
+      parseInt(named[1], 10),
+      MONTHS.indexOf(named[2].toLowerCase()) + 1,
+      named[3] ? parseInt(named[3], 10) : undefined,
+      referenceDate
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse promotion terms (was price, member price, multi-buy, end date) from product tile or page text
+ */
+export function parsePromoTerms(text: string | undefined, referenceDate: Date = new Date()): PromoTerms {
+  if (!text) {
+    return {};
+  }
+
+  const terms: PromoTerms = {};
+
+  const was = text.match(WAS_PATTERN);
+  if (was) {
+    terms.regularPrice = parseFloat(was[1]);
+  }
+
+  const member = text.match(MEMBER_PATTERN);
+  if (member) {
+    terms.memberPrice = parseFloat(member[1]);
+  }
+
+  const multiBuy = text.match(MULTI_BUY_PATTERN);
+  if (multiBuy && parseInt(multiBuy[1], 10) > 1) {
+    terms.multiBuy = { quantity: parseInt(multiBuy[1], 10), price: parseFloat(multiBuy[2]) };
+  }
+
+  const endDate = parsePromoEndDate(text, referenceDate);
+  if (endDate) {
+    terms.promoEndDate = endDate;
+  }
+
+  return terms;
+}
+
+/**
+ * Check whether a line states a promotional term rather than the price everyone pays now
+ */
+export function isPromoTermLine(line: string): boolean {
+  return WAS_PATTERN.test(line) || MEMBER_PATTERN.test(line) || MULTI_BUY_PATTERN.test(line);
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { AppError } from '../middleware/error-handler';
+
+export const storeSchema = z.object({
+  storeName: z.string().trim().min(1, 'storeName is required'),
+  websiteUrl: z.string().trim().url('websiteUrl must be a valid URL')
+    .refine((url) => /^https?:\/\//i.test(url), 'websiteUrl must use http:// or https://'),
+});
+
+export const productSchema = z.object({
+  productId: z.string().trim().min(1, 'productId is required'),
+  productName: z.string().trim().min(1, 'productName is required'),
+  description: z.string().trim().min(1, 'description is required'),
+  brand: z.string().trim().min(1, 'brand is required'),
+});
+
+/** A store as persisted, read back without the input rules of storeSchema */
+export const storedStoreSchema = z.object({
+  storeName: z.string(),
+  websiteUrl: z.string(),
+}).passthrough();
+
+/** A product as persisted, read back without the input rules of productSchema */
+export const storedProductSchema = z.object({
+  productId: z.string(),
+  productName: z.string(),
+  description: z.string(),
+  brand: z.string(),
+}).passthrough();
+
+export const duplicatePolicySchema = z.enum(['keep-first', 'keep-last', 'merge'], {
+  errorMap: () => ({ message: 'must be keep-first, keep-last or merge' }),
+});
+
+/**
+ * Validate a request body against a schema, reporting every problem in one 400
+ */
+export function parseBody<T>(schema: z.ZodType<T>, body: unknown, label: string): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const messages = result.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    throw new AppError(400, `Invalid ${label}: ${messages.join('; ')}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,391 @@
+import { createZip, readZip } from './zip';
+
+/**
+ * Minimal XLSX support. The writer handles inline strings, numbers, a few fixed
+ * cell styles, a bold frozen header row and column widths. The reader returns
+ * a sheet's cell text (values as stored, without number formatting).
+ */
+
+export type XlsxStyle = 'default' | 'header' | 'price' | 'highlight' | 'highlightPrice';
+
+export type XlsxValue = string | number | undefined;
+
+export interface XlsxCell {
+  value: XlsxValue;
+  style?: XlsxStyle;
+}
+
+export interface XlsxSheet {
+  name: string;
+  /** First row is the header */
+  rows: Array<Array<XlsxValue | XlsxCell>>;
+  /** Column widths in characters; worked out from the content when omitted */
+  columnWidths?: number[];
+}
+
+export interface XlsxRow {
+  /** 1-based row number in the sheet */
+  row: number;
+  values: string[];
+}
+
+// Index of each style in styles.xml cellXfs
+const STYLE_INDEX: Record<XlsxStyle, number> = {
+  default: 0,
+  header: 1,
+  price: 2,
+  highlight: 3,
+  highlightPrice: 4,
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="0.00"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="4"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE2E8F0"/></patternFill></fill><fill><patternFill patternType="solid"><fgColor rgb="FFD1FAE5"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="3" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="164" fontId="1" fillId="3" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1" applyFill="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const MAX_COLUMN_WIDTH = 60;
+
+// Package parts the reader needs
+const WORKBOOK_PART = 'xl/workbook.xml';
+const WORKBOOK_RELS_PART = 'xl/_rels/workbook.xml.rels';
+const SHARED_STRINGS_PART = 'xl/sharedStrings.xml';
+
+// Zero-based index of column XFD, the last column Excel allows
+const MAX_COLUMN_INDEX = 16383;
+// Rows with values read from one sheet, and cells across them (sparse rows count their gaps)
+const MAX_ROWS = 100000;
+const MAX_CELLS = 2000000;
+
+/**
+ * Escape text for XML, dropping control characters XML cannot carry
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column letters for a zero-based index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Normalise a plain value or styled cell
+ */
+function toCell(cell: XlsxValue | XlsxCell): XlsxCell {
+  return typeof cell === 'object' && cell !== null ? cell : { value: cell };
+}
+
+/**
+ * Excel sheet names are at most 31 characters and exclude : \ / ? * [ ]
+ */
+function sanitizeSheetName(name: string): string {
+  return name.replace(/[:\\/?*[\]]/g, ' ').substring(0, 31) || 'Sheet';
+}
+
+/**
+ * Width of each column from its longest value
+ */
+function measureColumns(rows: XlsxCell[][]): number[] {
+  const widths: number[] = [];
+  for (const row of rows) {
+    row.forEach((cell, index) => {
+      const length = cell.value === undefined ? 0 : String(cell.value).length;
+      widths[index] = Math.max(widths[index] || 8, Math.min(length + 2, MAX_COLUMN_WIDTH));
+    });
+  }
+  return widths;
+}
+
+/**
+ * Render one worksheet part
+ */
+function renderSheet(sheet: XlsxSheet): string {
+  const rows = sheet.rows.map((row) => row.map(toCell));
+  const widths = sheet.columnWidths || measureColumns(rows);
+
+  const cols = widths.length > 0
+    ? `<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => {
+      if (cell.value === undefined || cell.value === '') {
+        return '';
+      }
+
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+      const style = rowIndex === 0 ? STYLE_INDEX.header : STYLE_INDEX[cell.style || 'default'];
+      const s = style ? ` s="${style}"` : '';
+
+      if (typeof cell.value === 'number' && Number.isFinite(cell.value)) {
+        return `<c r="${ref}"${s}><v>${cell.value}</v></c>`;
+      }
+
+      return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell.value))}</t></is></c>`;
+    });
+
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  // Keep the header row visible while scrolling
+  const views = rows.length > 1
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${views}${cols}<sheetData>${sheetRows.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Build an XLSX workbook from one or more sheets
+ */
+export function createWorkbook(sheets: XlsxSheet[]): Buffer {
+  const names = sheets.map((sheet) => sanitizeSheetName(sheet.name));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${names.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>
+</workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${names.map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: Buffer.from(contentTypes, 'utf8') },
+    { name: '_rels/.rels', data: Buffer.from(rootRels, 'utf8') },
+    { name: 'xl/workbook.xml', data: Buffer.from(workbook, 'utf8') },
+    { name: 'xl/_rels/workbook.xml.rels', data: Buffer.from(workbookRels, 'utf8') },
+    { name: 'xl/styles.xml', data: Buffer.from(STYLES_XML, 'utf8') },
+    ...sheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      data: Buffer.from(renderSheet(sheet), 'utf8'),
+    })),
+  ]);
+}
+
+/**
+ * Decode XML character references and the predefined entities
+ */
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10)
+        );
+    }
+  });
+}
+
+/**
+ * Parse the attributes of an XML start tag
+ */
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = unescapeXml(match[2]);
+  }
+  return attributes;
+}
+
+/**
+ * Concatenate the text runs of a string item, skipping phonetic hints
+ */
+function readText(xml: string): string {
+  const withoutPhonetic = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+  return Array.from(withoutPhonetic.matchAll(/<(?:\w+:)?t\b[^>]*>([\s\S]*?)<\/(?:\w+:)?t>/g))
+    .map((match) => unescapeXml(match[1]))
+    .join('');
+}
+
+/**
+ * Zero-based column index of a cell reference such as "AB12".
+ * Throws for columns beyond XFD.
+ */
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+    if (index - 1 > MAX_COLUMN_INDEX) {
+      throw new Error(`Invalid XLSX file: cell reference ${ref} is beyond column XFD`);
+    }
+  }
+  return index - 1;
+}
+
+/**
+ * Read a required part of the package
+ */
+function readPart(files: Map<string, Buffer>, name: string): string {
+  const part = files.get(name);
+  if (!part) {
+    throw new Error(`Invalid XLSX file: ${name} is missing`);
+  }
+  return part.toString('utf8');
+}
+
+/**
+ * Read the workbook's sheet entries (name and relationship ID attributes), in tab order
+ */
+function readSheetEntries(files: Map<string, Buffer>): Array<Record<string, string>> {
+  const workbook = readPart(files, WORKBOOK_PART);
+  return Array.from(workbook.matchAll(/<(?:\w+:)?sheet\b([^>]*?)\/?>/g)).map((match) => parseAttributes(match[1]));
+}
+
+/**
+ * List the names of a workbook's sheets, in tab order
+ */
+export function listWorkbookSheets(workbook: Buffer): string[] {
+  return readSheetEntries(readZip(workbook, { names: [WORKBOOK_PART] })).map((sheet) => sheet.name);
+}
+
+/**
+ * Resolve the worksheet part of a sheet, by name or the first sheet
+ */
+function findSheetPart(files: Map<string, Buffer>, sheetName?: string): string {
+  const sheets = readSheetEntries(files);
+
+  if (sheets.length === 0) {
+    throw new Error('Invalid XLSX file: the workbook has no sheets');
+  }
+
+  const sheet = sheetName
+    ? sheets.find((candidate) => candidate.name?.toLowerCase() === sheetName.trim().toLowerCase())
+    : sheets[0];
+
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found. Available: ${sheets.map((candidate) => candidate.name).join(', ')}`);
+  }
+
+  const relationshipId = Object.entries(sheet).find(([key]) => key.endsWith(':id'))?.[1];
+  const rels = readPart(files, WORKBOOK_RELS_PART);
+  const relationship = Array.from(rels.matchAll(/<(?:\w+:)?Relationship\b([^>]*?)\/?>/g))
+    .map((match) => parseAttributes(match[1]))
+    .find((candidate) => candidate.Id === relationshipId);
+
+  if (!relationship?.Target) {
+    throw new Error(`Invalid XLSX file: no worksheet part for sheet "${sheet.name}"`);
+  }
+
+  // Targets are relative to xl/ unless absolute within the package
+  return relationship.Target.startsWith('/')
+    ? relationship.Target.substring(1)
+    : `xl/${relationship.Target.replace(/^\.\//, '')}`;
+}
+
+/**
+ * Read the rows of a sheet (the first sheet unless one is named).
+ * Rows without any values are left out; values are untrimmed cell text.
+ */
+export function readWorkbookSheet(workbook: Buffer, sheetName?: string): XlsxRow[] {
+  // Only the parts needed are inflated: the workbook and its relationships, then the sheet
+  const sheetPart = findSheetPart(readZip(workbook, { names: [WORKBOOK_PART, WORKBOOK_RELS_PART] }), sheetName);
+  const files = readZip(workbook, { names: [sheetPart, SHARED_STRINGS_PART] });
+  const sheet = readPart(files, sheetPart);
+
+  const sharedStringsPart = files.get(SHARED_STRINGS_PART)?.toString('utf8') || '';
+  const sharedStrings = Array.from(sharedStringsPart.matchAll(/<(?:\w+:)?si\b[^>]*>([\s\S]*?)<\/(?:\w+:)?si>/g))
+    .map((match) => readText(match[1]));
+
+  const rows: XlsxRow[] = [];
+  let rowNumber = 0;
+  let cellCount = 0;
+
+  for (const rowMatch of sheet.matchAll(/<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g)) {
+    const rowAttributes = parseAttributes(rowMatch[1]);
+    rowNumber = rowAttributes.r ? parseInt(rowAttributes.r, 10) : rowNumber + 1;
+
+    const values: string[] = [];
+    let nextColumn = 0;
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g)) {
+      const attributes = parseAttributes(cellMatch[1]);
+      const content = cellMatch[2] || '';
+      const column = attributes.r ? columnIndex(attributes.r) : nextColumn;
+      if (column > MAX_COLUMN_INDEX) {
+        throw new Error('Invalid XLSX file: row has cells beyond column XFD');
+      }
+      nextColumn = column + 1;
+
+      const raw = content.match(/<(?:\w+:)?v\b[^>]*>([\s\S]*?)<\/(?:\w+:)?v>/)?.[1];
+      let value: string;
+
+      switch (attributes.t) {
+        case 's':
+          value = raw !== undefined ? sharedStrings[parseInt(raw, 10)] ?? '' : '';
+          break;
+        case 'inlineStr':
+          value = readText(content);
+          break;
+        case 'b':
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+          break;
+        default:
+          value = raw !== undefined ? unescapeXml(raw) : '';
+      }
+
+      values[column] = value;
+    }
+
+    cellCount += values.length;
+    if (cellCount > MAX_CELLS) {
+      throw new Error(`Sheet has more than ${MAX_CELLS} cells`);
+    }
+
+    const dense = Array.from(values, (value) => value ?? '');
+    if (dense.some((value) => value.trim() !== '')) {
+      if (rows.length >= MAX_ROWS) {
+        throw new Error(`Sheet has more than ${MAX_ROWS} rows with values`);
+      }
+      rows.push({ row: rowNumber, values: dense });
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,257 @@
+// Types shared by the server and the client: API payloads without Date fields and real-time events
+
+// Upload validation
+
+export interface ValidationError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export type UploadFileKind = 'stores' | 'products';
+
+export interface UploadIssue extends ValidationError {
+  file: UploadFileKind;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * How rows sharing a ProductId are resolved before indexing: keep the first or
+ * last row, or merge them into one product
+ */
+export type DuplicatePolicy = 'keep-first' | 'keep-last' | 'merge';
+
+/**
+ * Outcome of validating an upload, row by row.
+ * In lenient mode the job is created from the accepted rows.
+ */
+export interface UploadReport {
+  mode: 'strict' | 'lenient';
+  /** Set when rows sharing a ProductId were resolved to one product */
+  duplicates?: DuplicatePolicy;
+  /** Valid rows per file */
+  accepted: Record<UploadFileKind, number>;
+  /** Rows left out because they had errors */
+  skippedRows: Array<{ file: UploadFileKind; row: number }>;
+  warnings: UploadIssue[];
+  errors: UploadIssue[];
+}
+
+/** Source column header for each field, keyed by field name (e.g. productId → "SKU") */
+export type ColumnMapping = Record<string, string>;
+
+export interface UploadField {
+  key: string;
+  /** Canonical column header, e.g. "ProductId" */
+  header: string;
+  required: boolean;
+}
+
+export interface FilePreview {
+  headers: string[];
+  /** First few data rows, as read */
+  sampleRows: string[][];
+  totalRows: number;
+  fields: UploadField[];
+  suggestedMapping: ColumnMapping;
+  /** Sheets of an XLSX file, and the one previewed */
+  sheets?: string[];
+  sheet?: string;
+}
+
+export interface UploadPreview {
+  stores?: FilePreview;
+  products?: FilePreview;
+}
+
+// Jobs and results
+
+export enum JobStatus {
+  UPLOADED = 'uploaded',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  PAUSED = 'paused',
+}
+
+/** A job status as sent to the client, e.g. "completed" */
+export type JobStatusValue = `${JobStatus}`;
+
+export interface MultiBuyDeal {
+  quantity: number;
+  /** Total price for the quantity, e.g. 5 for "2 for $5" */
+  price: number;
+}
+
+/**
+ * Shelf, promotional and member prices for a product.
+ * `price` on results is what a non-member pays for one item today:
+ * the promo price during a special, otherwise the regular price.
+ */
+export interface PromoPricing {
+  regularPrice?: number;
+  promoPrice?: number;
+  memberPrice?: number;
+  multiBuy?: MultiBuyDeal;
+  /** ISO date (YYYY-MM-DD) */
+  promoEndDate?: string;
+}
+
+export interface ScrapingResult extends PromoPricing {
+  productId: string;
+  productName: string;
+  brand: string;
+  storeName: string;
+  foundProductName?: string;
+  price?: number;
+  currency?: string;
+  availability?: string;
+  /** Pack size as shown, e.g. "6 x 330ml" */
+  packSize?: string;
+  /** Base unit of unitPrice */
+  unit?: SizeUnit;
+  /** Price per 1L, 1kg or each */
+  unitPrice?: number;
+  isExactMatch: boolean;
+  /** How closely the found product matches (0..1); exact matches reach the configured threshold */
+  matchScore?: number;
+  matchBreakdown?: MatchBreakdown;
+  replacementDescription?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Components of a match score, each 0..1. A component is absent when it could
+ * not be judged, e.g. neither name carries a pack size.
+ */
+export interface MatchBreakdown {
+  /** The brand, or one of its aliases, appears in the found name */
+  brand?: number;
+  /** Pack sizes agree */
+  size?: number;
+  /** Share of the product name's or description's words found, whichever is higher */
+  name?: number;
+  /** Embedding similarity of the two names */
+  vector?: number;
+}
+
+export type SizeUnit = 'L' | 'kg' | 'each';
+
+// Price comparison
+
+/**
+ * How replacement matches are treated in a comparison:
+ * used as found, used but flagged, or left out
+ */
+export type ReplacementMode = 'include' | 'flag' | 'exclude';
+
+export interface ComparisonCell {
+  price?: number;
+  unitPrice?: number;
+  unit?: SizeUnit;
+  foundProductName?: string;
+  isExactMatch: boolean;
+  isCheapest: boolean;
+  errorMessage?: string;
+}
+
+export interface ComparisonRow {
+  productId: string;
+  productName: string;
+  brand: string;
+  /** Keyed by store name; absent when the store has no result for the product */
+  cells: Record<string, ComparisonCell>;
+  /** Stores sharing the lowest price */
+  cheapestStores: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  medianPrice?: number;
+  /** Set in flag mode when every price found is a replacement */
+  replacementOnly?: boolean;
+}
+
+export interface StoreBasket {
+  storeName: string;
+  /** Sum of every price found at the store */
+  total: number;
+  pricedProducts: number;
+  missingProducts: number;
+  /** Sum over the products priced at every store, for a like-for-like comparison */
+  comparableTotal?: number;
+  isCheapest: boolean;
+}
+
+export interface PriceComparison {
+  jobId: string;
+  replacements: ReplacementMode;
+  stores: string[];
+  products: ComparisonRow[];
+  baskets: StoreBasket[];
+  /** Products priced at every store */
+  comparableProducts: number;
+  /** Products left out in exclude mode because only replacements were found */
+  excludedProductIds: string[];
+}
+
+// Real-time events (Socket.IO, one room per job)
+
+export interface TaskProgress {
+  completedTasks: number;
+  failedTasks: number;
+  totalTasks: number;
+  percent: number;
+  etaMs?: number;
+}
+
+export interface TaskStartedEvent {
+  jobId: string;
+  storeName: string;
+  productId: string;
+  productName: string;
+  progress: TaskProgress;
+}
+
+export interface TaskCompletedEvent {
+  jobId: string;
+  result: ScrapingResult;
+  progress: TaskProgress;
+}
+
+export interface StoreFinishedEvent {
+  jobId: string;
+  storeName: string;
+  progress: TaskProgress;
+}
+
+export interface JobFinishedEvent {
+  jobId: string;
+  status: JobStatusValue;
+  resultsCount: number;
+  error?: string;
+}
+
+export interface JobStatusEvent {
+  jobId: string;
+  status: JobStatusValue;
+  message: string;
+}
+
+export interface SubscribeResponse {
+  ok: boolean;
+  status?: JobStatusValue;
+  error?: string;
+}
+
+export interface ServerToClientEvents {
+  'task-started': (event: TaskStartedEvent) => void;
+  'task-completed': (event: TaskCompletedEvent) => void;
+  'store-finished': (event: StoreFinishedEvent) => void;
+  'job-finished': (event: JobFinishedEvent) => void;
+  'job-status': (event: JobStatusEvent) => void;
+}
+
+export interface ClientToServerEvents {
+  'job:subscribe': (jobId: string, ack?: (response: SubscribeResponse) => void) => void;
+  'job:unsubscribe': (jobId: string) => void;
+}
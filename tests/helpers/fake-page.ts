@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { parseHTML } from 'linkedom';
+import type { Page } from 'playwright';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+/** Fixture file (relative to tests/fixtures) served for each URL, keyed by origin and path */
+export type FixtureRoutes = Record<string, string>;
+
+type FixtureDocument = ReturnType<typeof parseHTML>['document'];
+type FixtureElement = NonNullable<ReturnType<FixtureDocument['querySelector']>>;
+
+/**
+ * Read a fixture file as text
+ */
+export function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+/**
+ * Whether an element would be rendered: not hidden by attribute or inline style,
+ * itself or through an ancestor
+ */
+function isRendered(element: FixtureElement): boolean {
+  if (element.getAttribute('type') === 'hidden') {
+    return false;
+  }
+
+  for (let node: FixtureElement | null = element; node; node = node.parentElement) {
+    if (node.hasAttribute('hidden') || /display:\s*none/i.test(node.getAttribute('style') || '')) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Stand-in for a Playwright page that serves fixture HTML instead of live store
+ * sites. Implements the page calls the scraper makes: navigation and load waits,
+ * element lookup, filling and submitting GET search forms, body text and `$$eval`.
+ */
+export class FakePage {
+  /** Every URL loaded, in order */
+  readonly visits: string[] = [];
+
+  private currentUrl = 'about:blank';
+  private document: FixtureDocument = parseHTML('<html><body></body></html>').document;
+
+  constructor(private routes: FixtureRoutes) {}
+
+  /**
+   * This page typed as a Playwright page, for code under test
+   */
+  asPage(): Page {
+    return this as unknown as Page;
+  }
+
+  url(): string {
+    return this.currentUrl;
+  }
+
+  async goto(url: string): Promise<null> {
+    const target = new URL(url, this.currentUrl === 'about:blank' ? undefined : this.currentUrl);
+    const fixture = this.routes[`${target.origin}${target.pathname}`];
+    if (!fixture) {
+      throw new Error(`net::ERR_NAME_NOT_RESOLVED at ${target}`);
+    }
+
+    this.document = parseHTML(readFixture(fixture)).document;
+    this.currentUrl = target.toString();
+    this.visits.push(this.currentUrl);
+    return null;
+  }
+
+  async waitForLoadState(): Promise<void> {}
+
+  async waitForSelector(selector: string): Promise<null> {
+    if (!this.document.querySelector(selector)) {
+      throw new Error(`Timeout waiting for selector ${selector}`);
+    }
+    return null;
+  }
+
+  async waitForTimeout(): Promise<void> {}
+
+  async setViewportSize(): Promise<void> {}
+
+  async $(selector: string): Promise<{ isVisible(): Promise<boolean> } | null> {
+    const element = this.document.querySelector(selector);
+    return element ? { isVisible: async () => isRendered(element) } : null;
+  }
+
+  async fill(selector: string, value: string): Promise<void> {
+    this.find(selector).setAttribute('value', value);
+  }
+
+  async click(selector: string): Promise<void> {
+    const element = this.find(selector);
+    const form = element.closest('form');
+    if (form && ['submit', null].includes(element.getAttribute('type')) && /^(button|input)$/i.test(element.tagName)) {
+      await this.submit(form);
+    }
+  }
+
+  async press(selector: string, key: string): Promise<void> {
+    const form = this.find(selector).closest('form');
+    if (key === 'Enter' && form) {
+      await this.submit(form);
+    }
+  }
+
+  async innerText(selector: string): Promise<string> {
+    return this.find(selector).textContent || '';
+  }
+
+  async content(): Promise<string> {
+    return this.document.toString();
+  }
+
+  async $$eval<R, A>(selector: string, fn: (elements: FixtureElement[], arg: A) => R, arg: A): Promise<R> {
+    return fn(Array.from(this.document.querySelectorAll(selector)), arg);
+  }
+
+  private find(selector: string): FixtureElement {
+    const element = this.document.querySelector(selector);
+    if (!element) {
+      throw new Error(`No element matches ${selector}`);
+    }
+    return element;
+  }
+
+  /**
+   * Submit a form with GET, as a search box would
+   */
+  private async submit(form: FixtureElement): Promise<void> {
+    const action = new URL(form.getAttribute('action') || this.currentUrl, this.currentUrl);
+    action.search = '';
+    for (const input of Array.from(form.querySelectorAll('input[name]'))) {
+      action.searchParams.set(input.getAttribute('name')!, input.getAttribute('value') || '');
+    }
+    await this.goto(action.toString());
+  }
+}
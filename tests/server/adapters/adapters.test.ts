@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { FakePage } from '../../helpers/fake-page';
+import { extractAdapterProducts, getAdapterForUrl } from '../../../src/server/adapters';
+import { newWorldAdapter, paknsaveAdapter } from '../../../src/server/adapters/foodstuffs.adapter';
+import { woolworthsAdapter } from '../../../src/server/adapters/woolworths.adapter';
+import { AdapterProduct, StoreAdapter } from '../../../src/server/types';
+
+/**
+ * Search a fixture results page with an adapter and read its product tiles
+ */
+async function searchFixture(adapter: StoreAdapter, websiteUrl: string, fixture: string): Promise<AdapterProduct[]> {
+  const searchUrl = adapter.buildSearchUrl(websiteUrl, 'milk');
+  const { origin, pathname } = new URL(searchUrl);
+  const page = new FakePage({ [`${origin}${pathname}`]: fixture }).asPage();
+
+  await page.goto(searchUrl);
+  return extractAdapterProducts(page, adapter);
+}
+
+describe('getAdapterForUrl', () => {
+  it.each([
+    ['https://www.woolworths.co.nz/', woolworthsAdapter],
+    ['https://www.countdown.co.nz/shop', woolworthsAdapter],
+    ['https://www.newworld.co.nz/', newWorldAdapter],
+    ['https://store.newworld.co.nz/', newWorldAdapter],
+    ['https://www.paknsave.co.nz/', paknsaveAdapter],
+    ['HTTPS://WWW.PAKNSAVE.CO.NZ/', paknsaveAdapter],
+  ])('finds the adapter for %s', (url, adapter) => {
+    expect(getAdapterForUrl(url)).toBe(adapter);
+  });
+
+  it.each([
+    'https://www.freshchoice.co.nz/',
+    'https://notwoolworths.co.nz/',
+    'https://woolworths.co.nz.example.com/',
+    'not a url',
+  ])('finds no adapter for %s', (url) => {
+    expect(getAdapterForUrl(url)).toBeUndefined();
+  });
+});
+
+describe('Woolworths adapter', () => {
+  it('builds the search URL on the store origin', () => {
+    expect(woolworthsAdapter.buildSearchUrl('https://www.woolworths.co.nz/', 'Blue Milk 2L'))
+      .toBe('https://www.woolworths.co.nz/shop/searchproducts?search=Blue+Milk+2L');
+  });
+
+  it('reads product tiles from a search results page', async () => {
+    const products = await searchFixture(woolworthsAdapter, 'https://www.woolworths.co.nz/', 'adapters/woolworths-search.html');
+
+    expect(products).toEqual([
+      {
+        name: 'Anchor Blue Milk 2L',
+        price: 4.99,
+        regularPrice: undefined,
+        memberPrice: undefined,
+        unitPrice: '$2.50 / 1L',
+        availability: 'In Stock',
+      },
+      {
+        name: 'Tip Top Sandwich White Bread 700g',
+        price: 3.2,
+        regularPrice: 4.2,
+        memberPrice: undefined,
+        unitPrice: '$0.46 / 100g',
+        availability: 'In Stock',
+        promoEndDate: '2026-10-26',
+      },
+      {
+        name: 'Coca-Cola Soft Drink 1.5L',
+        price: 4.5,
+        regularPrice: undefined,
+        memberPrice: 3.5,
+        unitPrice: undefined,
+        availability: 'In Stock',
+        multiBuy: { quantity: 2, price: 7 },
+      },
+      {
+        name: "Vogel's Original Mixed Grain Bread 750g",
+        price: 5.6,
+        regularPrice: undefined,
+        memberPrice: undefined,
+        unitPrice: undefined,
+        availability: 'Out of Stock',
+      },
+    ]);
+  });
+
+  it('skips tiles without a title', () => {
+    expect(woolworthsAdapter.parseProduct({ title: '', dollars: '4', cents: '99' })).toBeNull();
+  });
+});
+
+describe('Foodstuffs adapters', () => {
+  it('build the search URL on the store origin', () => {
+    expect(newWorldAdapter.buildSearchUrl('https://www.newworld.co.nz/', 'Blue Milk'))
+      .toBe('https://www.newworld.co.nz/shop/search?q=Blue+Milk');
+    expect(paknsaveAdapter.buildSearchUrl('https://www.paknsave.co.nz/', 'Blue Milk'))
+      .toBe('https://www.paknsave.co.nz/shop/search?q=Blue+Milk');
+  });
+
+  it('read New World product tiles, with Club Deals priced for non-members', async () => {
+    const products = await searchFixture(newWorldAdapter, 'https://www.newworld.co.nz/', 'adapters/newworld-search.html');
+
+    expect(products).toEqual([
+      {
+        name: 'Anchor Blue Milk 2L',
+        price: 4.89,
+        memberPrice: undefined,
+        unitPrice: '$2.45 / 1L',
+        availability: 'In Stock',
+      },
+      {
+        name: 'Tip Top Sandwich White Bread 700g',
+        price: 4.29,
+        memberPrice: 2.99,
+        unitPrice: '$0.61 / 100g',
+        availability: 'In Stock',
+        promoEndDate: '2026-10-26',
+      },
+      {
+        name: 'Coca-Cola Soft Drink 1.5L',
+        price: 3.79,
+        memberPrice: undefined,
+        unitPrice: undefined,
+        availability: 'In Stock',
+        multiBuy: { quantity: 2, price: 6 },
+      },
+      {
+        name: "Vogel's Original Mixed Grain Bread 750g",
+        price: 5.49,
+        memberPrice: undefined,
+        unitPrice: undefined,
+        availability: 'Out of Stock',
+      },
+    ]);
+  });
+
+  it("read PAK'nSAVE product tiles", async () => {
+    const products = await searchFixture(paknsaveAdapter, 'https://www.paknsave.co.nz/', 'adapters/paknsave-search.html');
+
+    expect(products.map(({ name, price, unitPrice }) => ({ name, price, unitPrice }))).toEqual([
+      { name: 'Anchor Blue Milk 2L', price: 4.35, unitPrice: '$2.18 / 1L' },
+      { name: 'Tip Top Sandwich White Bread 700g', price: 3.5, unitPrice: undefined },
+    ]);
+  });
+
+  it('skip tiles without a title', () => {
+    expect(paknsaveAdapter.parseProduct({ title: '', dollars: '4' })).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getMatchingEngine, scoreFoundProduct } from '../../../src/server/matching';
+import { ProductData } from '../../../src/server/types';
+
+const blueMilk: ProductData = { productId: 'M1', productName: 'Blue Milk 2L', brand: 'Anchor', description: '2L' };
+const liteMilk: ProductData = { productId: 'M2', productName: 'Lite Milk 2L', brand: 'Anchor', description: '2L' };
+const butter: ProductData = { productId: 'B1', productName: 'Butter 500g', brand: 'Westgold', description: '500g' };
+
+describe('scoreFoundProduct', () => {
+  beforeAll(async () => {
+    await getMatchingEngine().indexProducts([blueMilk, liteMilk, butter]);
+  });
+
+  it('scores a found name that the engine ranks first for the product', async () => {
+    const match = await scoreFoundProduct(blueMilk, 'Anchor Blue Milk 2L');
+
+    expect(match).toMatchObject({ score: 1, closerProductId: undefined });
+  });
+
+  it('reports a surveyed product of the same brand that the found name is closer to', async () => {
+    const match = await scoreFoundProduct(blueMilk, 'Anchor Lite Milk 2L');
+
+    expect(match.closerProductId).toBe('M2');
+  });
+
+  it('scores products the engine has not indexed by name, brand and size alone', async () => {
+    const cream: ProductData = { productId: 'C1', productName: 'Cream 300ml', brand: 'Anchor', description: '300ml' };
+    const match = await scoreFoundProduct(cream, 'Anchor Cream 300ml');
+
+    expect(match).toEqual({ score: 1, breakdown: { brand: 1, size: 1, name: 1 }, closerProductId: undefined });
+  });
+});
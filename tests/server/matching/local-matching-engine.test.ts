@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { IndexedProduct, LocalMatchingEngine } from '../../../src/server/matching/local-matching-engine';
+import { MemoryRecordStore } from '../../../src/server/storage/memory-record-store';
+import { ProductData } from '../../../src/server/types';
+
+const product = (productId: string, productName: string, brand = 'Anchor'): ProductData => ({
+  productId,
+  productName,
+  brand,
+  description: '',
+});
+
+/**
+ * Embedding provider recording each request; a text embeds to its length and word count
+ */
+function fakeEmbedder() {
+  const requests: string[][] = [];
+  const embed = async (texts: string[]) => {
+    requests.push(texts);
+    return texts.map((text) => [text.length, text.split(' ').length]);
+  };
+  return { requests, embed };
+}
+
+describe('LocalMatchingEngine', () => {
+  it('embeds products in batches', async () => {
+    const { requests, embed } = fakeEmbedder();
+    const documents = new MemoryRecordStore<IndexedProduct>();
+    const engine = new LocalMatchingEngine(documents, embed);
+
+    const products = Array.from({ length: 20 }, (_, index) => product(`P${index}`, `Product ${index}`));
+    await engine.indexProducts(products);
+
+    expect(requests.map((texts) => texts.length)).toEqual([16, 4]);
+    expect(documents.get('P19')?.embedding).toEqual(['Product 19 Anchor '.length, 4]);
+  });
+
+  it('re-embeds only new or changed products on a later upload', async () => {
+    const { requests, embed } = fakeEmbedder();
+    const engine = new LocalMatchingEngine(new MemoryRecordStore<IndexedProduct>(), embed);
+
+    await engine.indexProducts([product('P1', 'Blue Milk 2L'), product('P2', 'Butter 500g')]);
+    requests.length = 0;
+
+    await engine.indexProducts([
+      product('P1', 'Blue Milk 2L'),
+      product('P2', 'Salted Butter 500g'),
+      product('P3', 'Cheese 1kg', 'Mainland'),
+    ]);
+
+    expect(requests).toEqual([['Salted Butter 500g Anchor ', 'Cheese 1kg Mainland ']]);
+  });
+
+  it('indexes without embeddings when the provider fails', async () => {
+    const documents = new MemoryRecordStore<IndexedProduct>();
+    const engine = new LocalMatchingEngine(documents, async () => {
+      throw new Error('Service unavailable');
+    });
+
+    await engine.indexProducts([product('P1', 'Blue Milk 2L')]);
+
+    expect(documents.get('P1')).toMatchObject({ productId: 'P1', embedding: undefined });
+    expect(await engine.searchProducts('Anchor Blue Milk')).toMatchObject([{ productId: 'P1' }]);
+  });
+});
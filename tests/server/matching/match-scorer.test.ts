@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { cosineSimilarity, normalizeBrand, scoreMatch } from '../../../src/server/matching/match-scorer';
+import { ProductData } from '../../../src/server/types';
+
+const weights = { brand: 0.25, size: 0.25, name: 0.35, vector: 0.15 };
+
+const milk: ProductData = { productId: 'P1', productName: 'Blue Milk 2L', brand: 'Anchor', description: '2L' };
+
+describe('normalizeBrand', () => {
+  it('drops accents, apostrophes, punctuation and company suffixes', () => {
+    expect(normalizeBrand("Pam's")).toBe('pams');
+    expect(normalizeBrand('Nestlé NZ Ltd')).toBe('nestle');
+    expect(normalizeBrand('Marks & Spencer')).toBe('marks and spencer');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('compares vector directions, clamped to 0..1', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe('scoreMatch', () => {
+  it('scores the same product as a full match', () => {
+    expect(scoreMatch(milk, 'Anchor Blue Milk 2L', { weights })).toEqual({
+      score: 1,
+      breakdown: { brand: 1, size: 1, name: 1 },
+    });
+  });
+
+  it('marks down another size', () => {
+    const { score, breakdown } = scoreMatch(milk, 'Anchor Blue Milk 1L', { weights });
+    expect(breakdown).toEqual({ brand: 1, size: 0, name: 1 });
+    expect(score).toBeCloseTo(0.706, 3);
+  });
+
+  it('gives part of the size score to the same total in another pack', () => {
+    const cola: ProductData = { productId: 'P2', productName: 'Coke 2L', brand: 'Coca Cola', description: '2L' };
+    expect(scoreMatch(cola, 'Coca-Cola 4 x 500ml', { weights }).breakdown.size).toBe(0.25);
+  });
+
+  it('marks down another variant of the product', () => {
+    expect(scoreMatch(milk, 'Anchor Lite Milk 2L', { weights }).breakdown.name).toBe(0.5);
+  });
+
+  it('recognises brand aliases and brands written without spaces', () => {
+    const cola: ProductData = { productId: 'P2', productName: 'Soft Drink 1.5L', brand: 'Coke', description: '1.5L' };
+    expect(scoreMatch(cola, 'Coca Cola Soft Drink 1.5L', { weights }).breakdown.brand).toBe(1);
+    expect(scoreMatch(cola, 'CocaCola Soft Drink 1.5L', { weights }).breakdown.brand).toBe(1);
+    expect(scoreMatch(cola, 'Pepsi Soft Drink 1.5L', { weights }).breakdown.brand).toBe(0);
+  });
+
+  it('keeps words with apostrophes whole', () => {
+    const bread: ProductData = { productId: 'P3', productName: "Pam's White Toast Bread", brand: "Pam's", description: '600g' };
+    expect(scoreMatch(bread, 'Pams White Toast Bread 600g', { weights }).breakdown).toEqual({ brand: 1, size: 1, name: 1 });
+  });
+
+  it('scores name words against the description when it is the fuller text', () => {
+    const bananas: ProductData = { productId: 'P4', productName: 'Banan', brand: 'Dole', description: 'Dole Bobby Bananas' };
+    const { score, breakdown } = scoreMatch(bananas, 'Dole Bobby Bananas each', { weights });
+
+    expect(breakdown).toEqual({ brand: 1, name: 1 });
+    expect(score).toBe(1);
+  });
+
+  it('scores name words against the name when the description only gives a size', () => {
+    expect(scoreMatch(milk, 'Anchor Milk 2L', { weights }).breakdown.name).toBe(0.5);
+  });
+
+  it('includes embedding similarity when measured', () => {
+    const { score, breakdown } = scoreMatch(milk, 'Anchor Blue Milk 2L', { weights, vectorSimilarity: 0.8 });
+    expect(breakdown.vector).toBe(0.8);
+    expect(score).toBe(0.97);
+  });
+
+  it('leaves out components that cannot be judged', () => {
+    const loose: ProductData = { productId: 'P5', productName: 'Bananas', brand: '', description: 'Loose' };
+    expect(scoreMatch(loose, 'Bananas per kg', { weights })).toEqual({ score: 1, breakdown: { name: 1 } });
+  });
+});
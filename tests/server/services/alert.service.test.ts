@@ -0,0 +1,137 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { processJobAlerts } from '../../../src/server/services/alert.service';
+import { getJob, saveJob, saveTaskResult } from '../../../src/server/services/job-storage.service';
+import { recordPricePoint } from '../../../src/server/services/price-history.service';
+import { config } from '../../../src/server/config';
+import { JobStatus, PriceAlert, ScrapingResult } from '../../../src/server/types';
+
+interface WebhookCall {
+  jobId: string;
+  alerts: PriceAlert[];
+}
+
+/**
+ * Read a request body as JSON
+ */
+async function readJson(req: IncomingMessage): Promise<WebhookCall> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * A found result for a product at FreshMart
+ */
+function result(productId: string, price: number): ScrapingResult {
+  return {
+    productId,
+    productName: `Product ${productId}`,
+    brand: 'Brand',
+    storeName: 'FreshMart',
+    foundProductName: `Brand Product ${productId}`,
+    price,
+    availability: 'In Stock',
+    isExactMatch: true,
+  };
+}
+
+describe('processJobAlerts', () => {
+  const calls: WebhookCall[] = [];
+  let status = 200;
+  let server: Server;
+
+  beforeAll(async () => {
+    // Local stand-in for the alert webhook
+    server = createServer(async (req, res) => {
+      calls.push(await readJson(req));
+      res.writeHead(status).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    config.alerts.webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`;
+  });
+
+  afterAll(async () => {
+    config.alerts.webhookUrl = undefined;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    calls.length = 0;
+    status = 200;
+  });
+
+  /**
+   * A previous run of P1 and P2 at $4, and a completed job that has scraped the given results
+   */
+  function setUpJob(jobId: string, results: ScrapingResult[]): void {
+    const previousRun = `${jobId}-previous`;
+    recordPricePoint(previousRun, result(`${jobId}-P1`, 4), new Date('2026-01-01'));
+    recordPricePoint(previousRun, result(`${jobId}-P2`, 4), new Date('2026-01-01'));
+
+    saveJob({
+      jobId,
+      stores: [{ storeName: 'FreshMart', websiteUrl: 'https://freshmart.test/' }],
+      products: [],
+      status: JobStatus.COMPLETED,
+      createdAt: new Date(),
+    });
+    for (const scraped of results) {
+      saveTaskResult(jobId, scraped);
+      recordPricePoint(jobId, scraped);
+    }
+  }
+
+  it('posts new alerts to the webhook and marks them sent', async () => {
+    setUpJob('first-run', [result('first-run-P1', 5)]);
+
+    const alerts = await processJobAlerts('first-run');
+
+    expect(alerts).toHaveLength(1);
+    expect(calls).toEqual([{ event: 'price-alerts', jobId: 'first-run', jobCreatedAt: expect.any(String), alerts: [
+      expect.objectContaining({ type: 'price-rise', productId: 'first-run-P1', changePercent: 25 }),
+    ] }]);
+    expect(getJob('first-run')!.alerts![0].sentAt).toBeInstanceOf(Date);
+  });
+
+  it('does not post alerts again when a completed job is retried', async () => {
+    setUpJob('retried', [result('retried-P1', 5)]);
+    await processJobAlerts('retried');
+    const firstSentAt = getJob('retried')!.alerts![0].sentAt;
+
+    // The retry scrapes a task that failed the first time
+    const retried = result('retried-P2', 3);
+    saveTaskResult('retried', retried);
+    recordPricePoint('retried', retried);
+    const alerts = await processJobAlerts('retried');
+
+    expect(alerts.map((alert) => [alert.type, alert.productId])).toEqual([
+      ['price-rise', 'retried-P1'],
+      ['price-drop', 'retried-P2'],
+    ]);
+    expect(calls.map((call) => call.alerts.map((alert) => alert.productId))).toEqual([
+      ['retried-P1'],
+      ['retried-P2'],
+    ]);
+    expect(getJob('retried')!.alerts![0].sentAt).toEqual(firstSentAt);
+
+    await processJobAlerts('retried');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('posts alerts again after the webhook failed', async () => {
+    setUpJob('webhook-down', [result('webhook-down-P1', 5)]);
+
+    status = 503;
+    await processJobAlerts('webhook-down');
+    expect(getJob('webhook-down')!.alerts![0].sentAt).toBeUndefined();
+
+    status = 200;
+    await processJobAlerts('webhook-down');
+    expect(calls).toHaveLength(2);
+    expect(getJob('webhook-down')!.alerts![0].sentAt).toBeInstanceOf(Date);
+  });
+});
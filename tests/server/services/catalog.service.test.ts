@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { getCatalogProduct, importCatalogProducts } from '../../../src/server/services/catalog.service';
+
+describe('importCatalogProducts', () => {
+  it('counts and saves a repeated productId once, keeping the last row', () => {
+    const result = importCatalogProducts([
+      { productId: 'C1', productName: 'Blue Milk 2L', brand: 'Anchor', description: '2L' },
+      { productId: 'C2', productName: 'Butter 500g', brand: 'Westgold', description: '500g' },
+      { productId: 'C1', productName: 'Lite Milk 2L', brand: 'Anchor', description: '2L' },
+    ]);
+
+    expect(result).toEqual({ created: 2, updated: 0 });
+    expect(getCatalogProduct('C1')?.productName).toBe('Lite Milk 2L');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { buildComparison } from '../../../src/server/services/comparison.service';
+import { JobData, JobStatus, ScrapingResult } from '../../../src/server/types';
+
+/**
+ * A found result for a product at a store
+ */
+function result(productId: string, storeName: string, price: number, isExactMatch = true): ScrapingResult {
+  return { productId, productName: `Product ${productId}`, brand: 'Brand', storeName, price, isExactMatch };
+}
+
+/**
+ * A completed job over stores A and B and products P1 and P2
+ */
+function job(results: ScrapingResult[], overrides: Partial<JobData> = {}): JobData {
+  return {
+    jobId: 'comparison',
+    stores: [{ storeName: 'A', websiteUrl: 'https://a.test/' }, { storeName: 'B', websiteUrl: 'https://b.test/' }],
+    products: [
+      { productId: 'P1', productName: 'Product P1', brand: 'Brand', description: '1kg' },
+      { productId: 'P2', productName: 'Product P2', brand: 'Brand', description: '2kg' },
+    ],
+    status: JobStatus.COMPLETED,
+    createdAt: new Date(),
+    results,
+    ...overrides,
+  };
+}
+
+describe('buildComparison', () => {
+  const results = [result('P1', 'A', 4), result('P1', 'B', 3.5), result('P2', 'A', 2), result('P2', 'B', 2.5, false)];
+
+  it('pivots results into rows per product with the cheapest stores and basket totals', () => {
+    const comparison = buildComparison(job(results), 'include');
+
+    expect(comparison.stores).toEqual(['A', 'B']);
+    expect(comparison.products.map((row) => [row.productId, row.minPrice, row.cheapestStores])).toEqual([
+      ['P1', 3.5, ['B']],
+      ['P2', 2, ['A']],
+    ]);
+    expect(comparison.baskets.map((basket) => [basket.storeName, basket.comparableTotal, basket.isCheapest])).toEqual([
+      ['A', 6, true],
+      ['B', 6, true],
+    ]);
+  });
+
+  it('leaves replacement prices out in exclude mode', () => {
+    const comparison = buildComparison(job(results), 'exclude');
+
+    expect(comparison.products[1].cells.B.price).toBeUndefined();
+    expect(comparison.baskets.map((basket) => basket.total)).toEqual([6, 3.5]);
+  });
+
+  it('gives a repeated product ID or store name a single row or column', () => {
+    const withRepeats = job(results);
+    withRepeats.products.push({ ...withRepeats.products[0], description: 'Repeated row' });
+    withRepeats.stores.push({ storeName: 'A', websiteUrl: 'https://a.test/other' });
+
+    const comparison = buildComparison(withRepeats, 'include');
+
+    expect(comparison.stores).toEqual(['A', 'B']);
+    expect(comparison.products.map((row) => row.productId)).toEqual(['P1', 'P2']);
+    expect(comparison.baskets.map((basket) => basket.pricedProducts)).toEqual([2, 2]);
+  });
+});
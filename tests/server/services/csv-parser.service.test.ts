@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectDelimiter,
+  parseProductsFile,
+  parseStoresFile,
+  previewProductsFile,
+  readTable,
+} from '../../../src/server/services/csv-parser.service';
+import { createWorkbook } from '../../../src/server/utils/xlsx';
+
+const csv = (...lines: string[]) => Buffer.from(lines.join('\n'));
+
+describe('parseStoresFile', () => {
+  it('keeps the first row of a repeated store name and warns about the rest', async () => {
+    const parsed = await parseStoresFile(csv(
+      'StoreName,Website URL',
+      'FreshMart,https://freshmart.co.nz/',
+      'FreshMart,https://freshmart.co.nz/ponsonby',
+      'Corner Store,https://cornerstore.co.nz/',
+    ));
+
+    expect(parsed.data.map((store) => store.websiteUrl)).toEqual([
+      'https://freshmart.co.nz/',
+      'https://cornerstore.co.nz/',
+    ]);
+    expect(parsed.rows).toEqual([2, 4]);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.warnings).toEqual([
+      { row: 3, field: 'StoreName', message: 'Row skipped; StoreName "FreshMart" is kept from row 2' },
+    ]);
+  });
+});
+
+describe('parseProductsFile', () => {
+  const products = csv(
+    'ProductId,ProductName,Description,Brand',
+    'P1,Blue Milk 2L,2L,Anchor',
+    'P1,Lite Milk 2L,2L,Anchor',
+    'P2,Butter 500g,500g,Anchor',
+  );
+
+  it('keeps the first row of a repeated ProductId when no policy is given', async () => {
+    const parsed = await parseProductsFile(products);
+
+    expect(parsed.data.map((product) => product.productName)).toEqual(['Blue Milk 2L', 'Butter 500g']);
+    expect(parsed.warnings.map((warning) => warning.message)).toEqual([
+      'Duplicate ProductId "P1" (first seen on row 2) with a different ProductName; only one of the rows can be searched',
+      'Row skipped; ProductId "P1" is kept from row 2',
+    ]);
+  });
+
+  it('applies the duplicate policy given', async () => {
+    const parsed = await parseProductsFile(products, { duplicates: 'keep-last' });
+
+    expect(parsed.data.map((product) => product.productName)).toEqual(['Lite Milk 2L', 'Butter 500g']);
+    expect(parsed.rows).toEqual([3, 4]);
+  });
+});
+
+describe('readTable', () => {
+  it('numbers rows by the file line they start on, past blank lines and multi-line cells', () => {
+    const table = readTable(csv(
+      'ProductId,ProductName,Description,Brand',
+      '',
+      'P1,Blue Milk 2L,"Fresh milk',
+      'in a 2L bottle",Anchor',
+      'P2,Butter 500g,500g,Anchor',
+      '',
+      ',Cheese 1kg,1kg,Mainland',
+    ));
+
+    expect(table.rows.map(({ row, values }) => [row, values[0]])).toEqual([[3, 'P1'], [5, 'P2'], [7, '']]);
+    expect(table.rows[0].values[2]).toBe('Fresh milk\nin a 2L bottle');
+  });
+
+  it('reports errors against those row numbers', async () => {
+    const parsed = await parseProductsFile(csv(
+      'ProductId,ProductName,Description,Brand',
+      '',
+      'P1,Blue Milk 2L,"Fresh milk',
+      'in a 2L bottle",Anchor',
+      ',Cheese 1kg,1kg,Mainland',
+    ));
+
+    expect(parsed.rows).toEqual([3]);
+    expect(parsed.errors).toEqual([{ row: 5, field: 'ProductId', message: 'ProductId is required' }]);
+  });
+});
+
+describe('readTable formats', () => {
+  const workbook = createWorkbook([
+    { name: 'Notes', rows: [['Prepared by'], ['Pricing team']] },
+    { name: 'Products', rows: [['ProductId', 'ProductName'], ['P1', 'Blue Milk 2L'], ['P2', 42]] },
+  ]);
+
+  it('reads the first sheet of an XLSX file unless one is named', () => {
+    expect(readTable(workbook).headers).toEqual(['Prepared by']);
+    expect(readTable(workbook, { sheet: 'Products' })).toEqual({
+      headers: ['ProductId', 'ProductName'],
+      rows: [{ row: 2, values: ['P1', 'Blue Milk 2L'] }, { row: 3, values: ['P2', '42'] }],
+    });
+  });
+
+  it('reports a sheet that is not in the workbook', async () => {
+    const parsed = await parseProductsFile(workbook, { sheet: 'Stores' });
+
+    expect(parsed.errors).toEqual([
+      { row: 0, field: 'file', message: 'Failed to parse file: Sheet "Stores" not found. Available: Notes, Products' },
+    ]);
+  });
+
+  it('reads .tsv files as tab-separated, whatever the header holds', () => {
+    const table = readTable(csv('ProductId\tProductName', 'P1\tMilk, 2L'), { filename: 'products.TSV' });
+    expect(table.rows[0].values).toEqual(['P1', 'Milk, 2L']);
+  });
+
+  it.each([
+    ['ProductId,ProductName;Brand', ','],
+    ['ProductId;ProductName;"Brand, Maker"', ';'],
+    ['ProductId\tProductName\tBrand', '\t'],
+    ['ProductId', ','],
+  ])('detects the delimiter of %j', (header, delimiter) => {
+    expect(detectDelimiter(`${header}\nP1`)).toBe(delimiter);
+  });
+});
+
+describe('column mapping', () => {
+  const retailerExport = csv(
+    'SKU,Item Name,Details,Manufacturer,Name',
+    'P1,Blue Milk 2L,2L,Anchor,Milk',
+  );
+
+  it('suggests exact headers first, then synonyms, using each column once', () => {
+    const preview = previewProductsFile(csv('Name,ProductName,SKU,Desc,Brand', 'x,Blue Milk 2L,P1,2L,Anchor'));
+
+    expect(preview.suggestedMapping).toEqual({
+      productId: 'SKU',
+      productName: 'ProductName',
+      description: 'Desc',
+      brand: 'Brand',
+    });
+    expect(preview).toMatchObject({ headers: ['Name', 'ProductName', 'SKU', 'Desc', 'Brand'], totalRows: 1 });
+  });
+
+  it('reads fields from suggested columns when headers differ from the template', async () => {
+    const parsed = await parseProductsFile(retailerExport);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.mapping).toEqual({ productId: 'SKU', productName: 'Item Name', description: 'Details', brand: 'Manufacturer' });
+    expect(parsed.data).toEqual([{ productId: 'P1', productName: 'Blue Milk 2L', description: '2L', brand: 'Anchor' }]);
+  });
+
+  it('prefers a confirmed mapping over the suggestions', async () => {
+    const parsed = await parseProductsFile(retailerExport, { mapping: { productName: 'name' } });
+
+    expect(parsed.data[0].productName).toBe('Milk');
+    expect(parsed.mapping.productName).toBe('Name');
+  });
+
+  it('reports mapped columns and fields that do not exist', async () => {
+    const parsed = await parseProductsFile(retailerExport, { mapping: { productName: 'Title', colour: 'Name' } });
+
+    expect(parsed.errors.map((error) => error.message)).toEqual([
+      'Unknown fields in column mapping: colour',
+      'Column "Title" mapped to ProductName was not found. Found: SKU, Item Name, Details, Manufacturer, Name',
+    ]);
+  });
+
+  it('lists the required columns it could not find', async () => {
+    const parsed = await parseStoresFile(csv('Location,Phone', 'Ponsonby,09 000 0000'));
+
+    expect(parsed.errors).toEqual([{
+      row: 0,
+      field: 'headers',
+      message: 'Missing required columns: StoreName, Website URL. Found: Location, Phone',
+    }]);
+  });
+});
+
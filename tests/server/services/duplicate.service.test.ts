@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyDuplicatePolicy,
+  findDuplicateProducts,
+  nearDuplicateKey,
+} from '../../../src/server/services/duplicate.service';
+import { ProductData } from '../../../src/server/types';
+
+const product = (productId: string, productName: string, description = '', brand = 'Anchor'): ProductData => ({
+  productId,
+  productName,
+  description,
+  brand,
+});
+
+describe('nearDuplicateKey', () => {
+  it('ignores case, punctuation, word order, brand words and how the size is written', () => {
+    expect(nearDuplicateKey(product('A', 'Coca-Cola Classic 6x330ml', '', 'Coca-Cola')))
+      .toBe(nearDuplicateKey(product('B', 'classic coca cola 6 x 330 ML', '', 'Coca Cola')));
+  });
+
+  it('tells apart products of different sizes', () => {
+    expect(nearDuplicateKey(product('A', 'Blue Milk 2L'))).not.toBe(nearDuplicateKey(product('B', 'Blue Milk 1L')));
+  });
+
+  it('falls back to the size in the description', () => {
+    expect(nearDuplicateKey(product('A', 'Butter', '500g'))).toBe(nearDuplicateKey(product('B', 'Butter 500 g')));
+  });
+});
+
+describe('findDuplicateProducts', () => {
+  it('reports repeated IDs, naming the fields that differ', () => {
+    const warnings = findDuplicateProducts(
+      [product('P1', 'Blue Milk 2L', '2L'), product('P1', 'Blue Milk 2L', '2L'), product('P1', 'Lite Milk 2L', '2 litre')],
+      [2, 3, 5]
+    );
+
+    expect(warnings).toEqual([
+      { row: 3, field: 'ProductId', message: 'Duplicate ProductId "P1" (repeats row 2)' },
+      {
+        row: 5,
+        field: 'ProductId',
+        message: 'Duplicate ProductId "P1" (first seen on row 2) with a different ProductName, Description; '
+          + 'only one of the rows can be searched',
+      },
+    ]);
+  });
+
+  it('reports products that look the same under another ID', () => {
+    const warnings = findDuplicateProducts([product('P1', 'Anchor Blue Milk 2L'), product('P2', 'Blue milk 2 litre')], [2, 3]);
+
+    expect(warnings).toEqual([{
+      row: 3,
+      field: 'ProductName',
+      message: 'Possible duplicate of row 2 (ProductId "P1"): same name, brand and size',
+    }]);
+  });
+
+  it('finds nothing in distinct products', () => {
+    expect(findDuplicateProducts([product('P1', 'Blue Milk 2L'), product('P2', 'Butter 500g')], [2, 3])).toEqual([]);
+  });
+});
+
+describe('applyDuplicatePolicy', () => {
+  const products = [
+    product('P1', 'Blue Milk 2L', '2L'),
+    product('P2', 'Butter 500g', '500g'),
+    product('P1', 'Blue Milk 2L', 'Bottle'),
+  ];
+  const rows = [2, 3, 4];
+
+  it('keeps the first row of an ID', () => {
+    expect(applyDuplicatePolicy(products, rows, 'keep-first')).toEqual({
+      products: [products[0], products[1]],
+      rows: [2, 3],
+      warnings: [{ row: 4, field: 'ProductId', message: 'Row skipped; ProductId "P1" is kept from row 2' }],
+    });
+  });
+
+  it('keeps the last row of an ID, in the place of the first', () => {
+    expect(applyDuplicatePolicy(products, rows, 'keep-last')).toEqual({
+      products: [products[2], products[1]],
+      rows: [4, 3],
+      warnings: [{ row: 4, field: 'ProductId', message: 'Row replaces row 2 with the same ProductId "P1"' }],
+    });
+  });
+
+  it('merges the distinct descriptions of an ID into the first row', () => {
+    const merged = applyDuplicatePolicy([...products, product('P1', 'Milk', '2L')], [...rows, 5], 'merge');
+
+    expect(merged.products).toEqual([product('P1', 'Blue Milk 2L', '2L / Bottle'), products[1]]);
+    expect(merged.rows).toEqual([2, 3]);
+    expect(merged.warnings.map((warning) => warning.message)).toEqual([
+      'Row merged into row 2 with the same ProductId "P1"',
+      'Row merged into row 2 with the same ProductId "P1"',
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { Writable } from 'stream';
+import { describe, expect, it } from 'vitest';
+import { formatMatchBreakdown, formatScore, streamResultsCsv } from '../../../src/server/services/export.service';
+import { ScrapingResult } from '../../../src/server/types';
+
+const result = (overrides: Partial<ScrapingResult> = {}): ScrapingResult => ({
+  productId: 'P1',
+  productName: 'Blue Milk 2L',
+  brand: 'Anchor',
+  storeName: 'FreshMart',
+  foundProductName: 'Anchor Blue Milk 2L',
+  price: 3.5,
+  isExactMatch: true,
+  ...overrides,
+});
+
+/** Writable that takes one chunk at a time, asynchronously, so writers have to wait for drain */
+function slowOutput(): { output: Writable; text: () => string } {
+  const chunks: string[] = [];
+  const output = new Writable({
+    highWaterMark: 16,
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk.toString());
+      setImmediate(callback);
+    },
+  });
+  return { output, text: () => chunks.join('') };
+}
+
+describe('formatScore', () => {
+  it('formats scores with up to two decimals, not as prices', () => {
+    expect(formatScore(1)).toBe('1');
+    expect(formatScore(2 / 3)).toBe('0.67');
+    expect(formatScore(0.5, 'de-DE')).toBe('0,5');
+    expect(formatMatchBreakdown({ brand: 1, size: 0, name: 2 / 3 })).toBe('brand 1; size 0; name 0.67');
+  });
+});
+
+describe('streamResultsCsv', () => {
+  it('quotes scraped text a spreadsheet would run as a formula', async () => {
+    const { output, text } = slowOutput();
+    const finished = new Promise((resolve) => output.on('finish', resolve));
+
+    await streamResultsCsv(
+      [result({ foundProductName: '=HYPERLINK("http://example.com")' }), result({ foundProductName: '@SUM(A1)', price: -1 })],
+      output,
+      { columns: ['foundProductName', 'price', 'matchScore'] }
+    );
+    await finished;
+
+    expect(text().replace(/^\uFEFF/, '').split('\n')).toEqual([
+      'Found Product,Price,Match Score',
+      '"\'=HYPERLINK(""http://example.com"")",3.50,',
+      '\'@SUM(A1),\'-1.00,',
+      '',
+    ]);
+  });
+
+  it('writes every row when the output fills up', async () => {
+    const { output, text } = slowOutput();
+    const finished = new Promise((resolve) => output.on('finish', resolve));
+    const results = Array.from({ length: 200 }, (_, index) => result({ productId: `P${index}`, matchScore: 0.25 }));
+
+    await streamResultsCsv(results, output, { columns: ['productId', 'matchScore'] });
+    await finished;
+
+    const lines = text().trim().split('\n');
+    expect(lines).toHaveLength(201);
+    expect(lines[200]).toBe('P199,0.25');
+  });
+});
@@ -0,0 +1,50 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileRecordStore } from '../../../src/server/storage/file-record-store';
+import { reviveJob } from '../../../src/server/services/job-storage.service';
+import { JobData } from '../../../src/server/types';
+
+const storedJob = (jobId: string, result: Record<string, unknown>) => ({
+  jobId,
+  status: 'completed',
+  stores: [{ storeName: 'FreshMart', websiteUrl: 'https://freshmart.co.nz/' }],
+  products: [{ productId: 'P1', productName: 'Blue Milk 2L', description: '2L', brand: 'Anchor' }],
+  createdAt: '2026-03-01T09:00:00.000Z',
+  results: [{ productId: 'P1', productName: 'Blue Milk 2L', brand: 'Anchor', storeName: 'FreshMart', ...result }],
+});
+
+describe('reviveJob', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeJob = (job: ReturnType<typeof storedJob>) => {
+    fs.writeFileSync(path.join(directory, `${job.jobId}.json`), JSON.stringify({ key: job.jobId, value: job }));
+  };
+
+  it('restores a stored job with its results', () => {
+    writeJob(storedJob('good', { isExactMatch: true, price: 3.5 }));
+
+    const jobs = new FileRecordStore<JobData>(directory, reviveJob);
+    expect(jobs.get('good')?.createdAt).toEqual(new Date('2026-03-01T09:00:00.000Z'));
+    expect(jobs.get('good')?.results).toEqual([
+      { productId: 'P1', productName: 'Blue Milk 2L', brand: 'Anchor', storeName: 'FreshMart', isExactMatch: true, price: 3.5 },
+    ]);
+  });
+
+  it('skips a stored job with a malformed result', () => {
+    writeJob(storedJob('good', { isExactMatch: false }));
+    writeJob(storedJob('bad', { isExactMatch: 'yes', price: '$3.50' }));
+
+    const jobs = new FileRecordStore<JobData>(directory, reviveJob);
+    expect(jobs.keys()).toEqual(['good']);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { saveJob } from '../../../src/server/services/job-storage.service';
+import { getPreviousPoint, recordPricePoint } from '../../../src/server/services/price-history.service';
+import { JobStatus, ScrapingResult } from '../../../src/server/types';
+
+const found = (price: number): ScrapingResult => ({
+  productId: 'P1',
+  productName: 'Blue Milk 2L',
+  brand: 'Anchor',
+  storeName: 'FreshMart',
+  price,
+  isExactMatch: true,
+});
+
+/**
+ * Save a completed job created at the given time
+ */
+function saveJobCreatedAt(jobId: string, createdAt: string): void {
+  saveJob({ jobId, status: JobStatus.COMPLETED, stores: [], products: [], createdAt: new Date(createdAt) });
+}
+
+describe('getPreviousPoint', () => {
+  it('orders points by when their job was created, not when a retried task recorded them', () => {
+    saveJobCreatedAt('monday', '2026-03-02T09:00:00Z');
+    saveJobCreatedAt('tuesday', '2026-03-03T09:00:00Z');
+
+    recordPricePoint('monday', found(3.5), new Date('2026-03-02T09:05:00Z'));
+    recordPricePoint('tuesday', found(3.8), new Date('2026-03-03T09:05:00Z'));
+    // Monday's task retried after Tuesday's job ran
+    recordPricePoint('monday', found(3.6), new Date('2026-03-03T10:00:00Z'));
+
+    expect(getPreviousPoint('P1', 'FreshMart', 'tuesday')).toMatchObject({ jobId: 'monday', price: 3.6 });
+    expect(getPreviousPoint('P1', 'FreshMart', 'monday')).toBeUndefined();
+  });
+});
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakePage } from '../../helpers/fake-page';
+import { locateSearch, submitSearch } from '../../../src/server/services/ai-navigator.service';
+import { extractProductPrice } from '../../../src/server/services/price-extractor.service';
+import { startScraping } from '../../../src/server/services/scraper.service';
+import { getJob, saveJob } from '../../../src/server/services/job-storage.service';
+import { JobStatus, ProductData, StoreData } from '../../../src/server/types';
+
+const { routes, pages, alertStatuses } = vi.hoisted(() => ({
+  routes: {
+    'https://freshmart.test/': 'stores/freshmart/home.html',
+    'https://freshmart.test/search': 'stores/freshmart/search.html',
+    'https://cornerstore.test/': 'stores/cornerstore/home.html',
+  } as Record<string, string>,
+  pages: [] as unknown[],
+  /** Job status seen by each alert evaluation */
+  alertStatuses: [] as string[],
+}));
+
+vi.mock('../../../src/server/services/alert.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/server/services/alert.service')>();
+  const { getJob: readJob } = await import('../../../src/server/services/job-storage.service');
+
+  return {
+    ...actual,
+    processJobAlerts: (jobId: string) => {
+      alertStatuses.push(readJob(jobId)!.status);
+      return actual.processJobAlerts(jobId);
+    },
+  };
+});
+
+// Pages come from fixtures instead of a real browser; navigation itself is not mocked
+vi.mock('../../../src/server/services/browser.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/server/services/browser.service')>();
+  const { FakePage: Fake } = await import('../../helpers/fake-page');
+
+  return {
+    ...actual,
+    launchBrowser: async () => ({}),
+    createContext: async () => ({}),
+    createPage: async () => {
+      const page = new Fake(routes);
+      pages.push(page);
+      return page.asPage();
+    },
+    closeContext: async () => undefined,
+    closeBrowser: async () => undefined,
+  };
+});
+
+const freshMart: StoreData = { storeName: 'FreshMart', websiteUrl: 'https://freshmart.test/' };
+const cornerStore: StoreData = { storeName: 'Corner Store', websiteUrl: 'https://cornerstore.test/' };
+
+const milk: ProductData = { productId: 'P1', productName: 'Blue Milk 2L', brand: 'Anchor', description: '2L' };
+const bread: ProductData = {
+  productId: 'P2',
+  productName: 'Tip Top Sandwich White Bread 700g',
+  brand: 'Tip Top',
+  description: '700g',
+};
+const grain: ProductData = { productId: 'P3', productName: 'Original Mixed Grain 750g', brand: "Vogel's", description: '750g' };
+
+describe('scrape flow against fixture store pages', () => {
+  beforeEach(() => {
+    pages.length = 0;
+  });
+
+  it('locates the search box, searches and reads the price', async () => {
+    const fake = new FakePage(routes);
+    const page = fake.asPage();
+    await page.goto(freshMart.websiteUrl);
+
+    const target = await locateSearch(page, freshMart.storeName);
+    expect(target).toEqual({ inputSelector: 'input[type="search"]', source: 'heuristic' });
+
+    await submitSearch(page, target!, 'Anchor Blue Milk 2L');
+    expect(fake.url()).toBe('https://freshmart.test/search?source=header&q=Anchor+Blue+Milk+2L');
+
+    const extracted = await extractProductPrice(page, milk);
+    expect(extracted).toMatchObject({
+      foundProductName: 'Anchor Blue Milk 2L',
+      price: 4.99,
+      currency: 'NZD',
+      availability: 'In Stock',
+    });
+  });
+
+  it('finds no search box on a store without one', async () => {
+    const page = new FakePage(routes).asPage();
+    await page.goto(cornerStore.websiteUrl);
+
+    expect(await locateSearch(page, cornerStore.storeName)).toBeNull();
+  });
+
+  it('scrapes every store and product of a job', async () => {
+    saveJob({
+      jobId: 'scrape-flow',
+      stores: [freshMart, cornerStore],
+      products: [milk, bread, grain],
+      status: JobStatus.UPLOADED,
+      createdAt: new Date(),
+    });
+
+    await startScraping('scrape-flow');
+
+    const job = getJob('scrape-flow')!;
+    expect(job.status).toBe(JobStatus.COMPLETED);
+    expect(alertStatuses).toEqual([JobStatus.COMPLETED]);
+    expect(job.progress).toMatchObject({ totalTasks: 6, completedTasks: 6, failedTasks: 3 });
+    expect(job.results).toHaveLength(6);
+
+    const result = (store: StoreData, product: ProductData) => job.results!.find((candidate) =>
+      candidate.storeName === store.storeName && candidate.productId === product.productId);
+
+    expect(result(freshMart, milk)).toMatchObject({
+      foundProductName: 'Anchor Blue Milk 2L',
+      price: 4.99,
+      regularPrice: 5.49,
+      promoPrice: 4.99,
+      isExactMatch: true,
+      packSize: '2L',
+    });
+    expect(result(freshMart, bread)).toMatchObject({
+      foundProductName: 'Tip Top Sandwich White Bread 700g',
+      price: 3.8,
+      isExactMatch: true,
+    });
+    expect(result(freshMart, grain)).toMatchObject({
+      price: undefined,
+      isExactMatch: false,
+      replacementDescription: 'Product not available at this store',
+    });
+    expect(result(freshMart, grain)?.errorMessage).toBeUndefined();
+
+    for (const product of [milk, bread, grain]) {
+      expect(result(cornerStore, product)).toMatchObject({
+        isExactMatch: false,
+        errorMessage: 'Could not locate a search box on https://cornerstore.test/',
+      });
+    }
+
+    // One page per store; FreshMart was searched once per product from the results page
+    const freshMartPage = (pages as FakePage[]).find((page) => page.visits[0] === freshMart.websiteUrl)!;
+    expect(freshMartPage.visits).toHaveLength(4);
+    expect(freshMartPage.visits.slice(1).map((url) => new URL(url).searchParams.get('q'))).toEqual([
+      'Anchor Blue Milk 2L',
+      'Tip Top Sandwich White Bread 700g',
+      "Vogel's Original Mixed Grain 750g",
+    ]);
+  });
+
+  it('carries completed and failed counts over when a job is run again', async () => {
+    saveJob({
+      jobId: 'scrape-resume',
+      stores: [freshMart, cornerStore],
+      products: [milk, bread],
+      status: JobStatus.PAUSED,
+      createdAt: new Date(),
+      results: [
+        { productId: 'P1', productName: milk.productName, brand: milk.brand, storeName: 'FreshMart', price: 4.99, isExactMatch: true },
+        { productId: 'P1', productName: milk.productName, brand: milk.brand, storeName: 'Corner Store', isExactMatch: false, errorMessage: 'Timed out' },
+      ],
+    });
+
+    const running = startScraping('scrape-resume');
+    expect(getJob('scrape-resume')!.progress).toMatchObject({ totalTasks: 4, completedTasks: 2, failedTasks: 1 });
+    await running;
+
+    // The failed task ran again and failed again; it is still counted once
+    const job = getJob('scrape-resume')!;
+    expect(job.status).toBe(JobStatus.COMPLETED);
+    expect(job.progress).toMatchObject({ totalTasks: 4, completedTasks: 4, failedTasks: 2 });
+    expect(job.results).toHaveLength(4);
+
+    const freshMartPage = (pages as FakePage[]).find((page) => page.visits[0] === freshMart.websiteUrl)!;
+    expect(freshMartPage.visits.slice(1).map((url) => new URL(url).searchParams.get('q'))).toEqual([
+      'Tip Top Sandwich White Bread 700g',
+    ]);
+  });
+});
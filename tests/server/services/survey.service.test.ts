@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createSurveyJob } from '../../../src/server/services/survey.service';
+import { getJob } from '../../../src/server/services/job-storage.service';
+import { ProductData, StoreData } from '../../../src/server/types';
+
+const stores: StoreData[] = [
+  { storeName: 'FreshMart', websiteUrl: 'https://freshmart.test/' },
+  { storeName: 'Corner Store', websiteUrl: 'https://cornerstore.test/' },
+];
+
+const products: ProductData[] = [
+  { productId: 'P1', productName: 'Blue Milk 2L', brand: 'Anchor', description: '2L' },
+  { productId: 'P2', productName: 'Sandwich White Bread 700g', brand: 'Tip Top', description: '700g' },
+];
+
+describe('createSurveyJob', () => {
+  it('saves a job for unique stores and products', () => {
+    const job = createSurveyJob(stores, products);
+    expect(getJob(job.jobId)).toMatchObject({ stores, products });
+  });
+
+  it('refuses to create a job whose results would overwrite each other', () => {
+    expect(() => createSurveyJob(stores, [...products, products[0]]))
+      .toThrow('Cannot create a job with duplicate entries: ProductId "P1" is listed more than once');
+  });
+
+  it('reports each repeated store name and product ID once', () => {
+    expect(() => createSurveyJob(
+      [...stores, { ...stores[0], websiteUrl: 'https://freshmart.test/ponsonby' }],
+      [...products, { ...products[1], productName: 'Toast Bread' }, products[1]]
+    )).toThrow('Store "FreshMart" is listed more than once; ProductId "P2" is listed more than once');
+  });
+});
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { FileRecordStore } from '../../../src/server/storage/file-record-store';
+
+interface Counter {
+  count: number;
+  updatedAt: Date;
+}
+
+const counterSchema = z.object({ count: z.number(), updatedAt: z.coerce.date() });
+
+const reviveCounter = (raw: unknown): Counter => counterSchema.parse(raw);
+
+describe('FileRecordStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'record-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('keeps records across instances, revived', async () => {
+    const store = new FileRecordStore<Counter>(directory, reviveCounter);
+    store.set('a/b', { count: 1, updatedAt: new Date('2026-01-02T03:04:05Z') });
+    await store.flush();
+
+    const reloaded = new FileRecordStore<Counter>(directory, reviveCounter);
+    expect(reloaded.keys()).toEqual(['a/b']);
+    expect(reloaded.get('a/b')).toEqual({ count: 1, updatedAt: new Date('2026-01-02T03:04:05Z') });
+  });
+
+  it('skips stored records the reviver rejects', () => {
+    fs.writeFileSync(path.join(directory, 'good.json'), JSON.stringify({ key: 'good', value: { count: 2, updatedAt: '2026-01-02T03:04:05Z' } }));
+    fs.writeFileSync(path.join(directory, 'bad.json'), JSON.stringify({ key: 'bad', value: { count: 'two' } }));
+
+    const store = new FileRecordStore<Counter>(directory, reviveCounter);
+    expect(store.keys()).toEqual(['good']);
+    expect(store.get('good')).toEqual({ count: 2, updatedAt: new Date('2026-01-02T03:04:05Z') });
+  });
+
+  it('reads changes straight away and writes them in the background', async () => {
+    const store = new FileRecordStore<Counter>(directory, reviveCounter);
+    store.set('job', { count: 1, updatedAt: new Date() });
+
+    expect(store.get('job')?.count).toBe(1);
+    expect(fs.readdirSync(directory)).toEqual([]);
+
+    await store.flush();
+    expect(fs.readdirSync(directory)).toEqual(['job.json']);
+  });
+
+  it('writes a record changed many times in quick succession once', async () => {
+    const writeFile = vi.spyOn(fs.promises, 'writeFile');
+    const store = new FileRecordStore<Counter>(directory, reviveCounter);
+
+    for (let count = 1; count <= 100; count++) {
+      store.set('job', { count, updatedAt: new Date() });
+    }
+    await store.flush();
+
+    expect(writeFile).toHaveBeenCalledTimes(1);
+    expect(new FileRecordStore<Counter>(directory, reviveCounter).get('job')?.count).toBe(100);
+    writeFile.mockRestore();
+  });
+
+  it('writes on its own after a short delay', async () => {
+    const store = new FileRecordStore<Counter>(directory, reviveCounter);
+    store.set('job', { count: 1, updatedAt: new Date() });
+
+    await vi.waitFor(() => expect(fs.readdirSync(directory)).toEqual(['job.json']), { timeout: 2000 });
+  });
+
+  it('does not write a record deleted before its write', async () => {
+    const store = new FileRecordStore<Counter>(directory, reviveCounter);
+    store.set('kept', { count: 1, updatedAt: new Date() });
+    store.set('deleted', { count: 2, updatedAt: new Date() });
+    expect(store.delete('deleted')).toBe(true);
+    await store.flush();
+
+    expect(fs.readdirSync(directory)).toEqual(['kept.json']);
+  });
+
+  it('removes deleted and cleared records from disk', async () => {
+    const store = new FileRecordStore<Counter>(directory, reviveCounter);
+    store.set('a', { count: 1, updatedAt: new Date() });
+    store.set('b', { count: 2, updatedAt: new Date() });
+    await store.flush();
+
+    store.delete('a');
+    await store.flush();
+    expect(fs.readdirSync(directory)).toEqual(['b.json']);
+
+    store.clear();
+    await store.flush();
+    expect(fs.readdirSync(directory)).toEqual([]);
+    expect(store.delete('missing')).toBe(false);
+  });
+});
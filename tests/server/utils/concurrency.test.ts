@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { runWithConcurrency } from '../../../src/server/utils/concurrency';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('runWithConcurrency', () => {
+  it('returns results in input order with at most `limit` in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await runWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(ms);
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('rethrows the first error only after the other workers have settled', async () => {
+    const finished: string[] = [];
+
+    const run = runWithConcurrency(['fails', 'slow', 'never started'], 2, async (item) => {
+      if (item === 'fails') {
+        throw new Error('worker failed');
+      }
+      await delay(20);
+      finished.push(item);
+    });
+
+    await expect(run).rejects.toThrow('worker failed');
+    expect(finished).toEqual(['slow']);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getNextRun, parseCron } from '../../../src/server/utils/cron';
+
+// Local time, as the scheduler evaluates it
+const at = (month: number, day: number, hour: number, minute: number) => new Date(2026, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 9-11,18 1 * 1-5/2');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 18]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 3, 5]);
+  });
+
+  it('reads month and weekday names, shortcuts and 7 as Sunday', () => {
+    expect([...parseCron('0 0 * jan-mar sun').months]).toEqual([1, 2, 3]);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect(parseCron('@daily')).toMatchObject({ expression: '@daily', dayOfMonthRestricted: false });
+  });
+
+  it.each([
+    ['0 0 * *', 'must have 5 fields'],
+    ['60 * * * *', 'minute value 60 is out of range 0-59'],
+    ['0 5-1 * * *', 'Invalid hour range "5-1"'],
+    ['*/0 * * * *', 'Invalid minute step "0"'],
+    ['0 0 * foo *', 'Invalid month value "foo"'],
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('getNextRun', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    const schedule = parseCron('*/15 9-17 * * *');
+
+    expect(getNextRun(schedule, at(3, 2, 10, 7))).toEqual(at(3, 2, 10, 15));
+    expect(getNextRun(schedule, at(3, 2, 10, 15))).toEqual(at(3, 2, 10, 30));
+    expect(getNextRun(schedule, at(3, 2, 17, 45))).toEqual(at(3, 3, 9, 0));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2026-03-02 is a Monday; the 15th comes before the next Friday
+    const schedule = parseCron('0 6 15 * fri');
+
+    expect(getNextRun(schedule, at(3, 2, 12, 0))).toEqual(at(3, 6, 6, 0));
+    expect(getNextRun(schedule, at(3, 13, 12, 0))).toEqual(at(3, 15, 6, 0));
+  });
+
+  it('waits for a leap year when only Feb 29 matches', () => {
+    expect(getNextRun(parseCron('0 0 29 2 *'), at(3, 1, 0, 0))).toEqual(new Date(2028, 1, 29, 0, 0));
+  });
+
+  it('gives up on a date that never exists', () => {
+    expect(() => getNextRun(parseCron('0 0 31 2 *'), at(1, 1, 0, 0))).toThrow('Cron expression "0 0 31 2 *" never matches');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { computeUnitPrice, parsePackSize, parseUnitPrice } from '../../../src/server/utils/pack-size';
+
+describe('parsePackSize', () => {
+  it.each([
+    ['Anchor Blue Milk 2L', { count: 1, quantity: 2, unit: 'L', label: '2L' }],
+    ['Coke 500 ml', { count: 1, quantity: 0.5, unit: 'L', label: '500ml' }],
+    ['Flour 1.5kg', { count: 1, quantity: 1.5, unit: 'kg', label: '1.5kg' }],
+    ['Chips 150gm', { count: 1, quantity: 0.15, unit: 'kg', label: '150g' }],
+    ['Juice 3 litres', { count: 1, quantity: 3, unit: 'L', label: '3L' }],
+  ])('reads the size in %s', (text, expected) => {
+    expect(parsePackSize(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['Coke 6x330ml', { count: 6, quantity: 1.98, unit: 'L', label: '6 x 330ml' }],
+    ['Water 4 x 1.5L', { count: 4, quantity: 6, unit: 'L', label: '4 x 1.5L' }],
+    ['Muesli bars 12 × 40g', { count: 12, quantity: 0.48, unit: 'kg', label: '12 x 40g' }],
+  ])('reads the multipack %s', (text, expected) => {
+    const packSize = parsePackSize(text)!;
+    expect({ ...packSize, quantity: Math.round(packSize.quantity * 1000) / 1000 }).toEqual(expected);
+  });
+
+  it.each([
+    ['Flour 1,000g', 1, '1000g'],
+    ['Rice 10,000 g', 10, '10000g'],
+    ['Oil 1,250.5ml', 1.2505, '1250.5ml'],
+  ])('reads thousands separators in %s', (text, quantity, label) => {
+    expect(parsePackSize(text)).toMatchObject({ quantity, label });
+  });
+
+  it.each([
+    ['Kartoffeln 2,5kg', 2.5, '2.5kg'],
+    ['Milch 1,75 l', 1.75, '1.75L'],
+  ])('reads decimal commas in %s', (text, quantity, label) => {
+    expect(parsePackSize(text)).toMatchObject({ quantity, label });
+  });
+
+  it.each([
+    ['Eggs 12pk', { count: 12, quantity: 12, unit: 'each', label: '12 pack' }],
+    ['Yoghurt pack of 6', { count: 6, quantity: 6, unit: 'each', label: '6 pack' }],
+    ['Avocado each', { count: 1, quantity: 1, unit: 'each', label: 'each' }],
+  ])('reads the count in %s', (text, expected) => {
+    expect(parsePackSize(text)).toEqual(expected);
+  });
+
+  it.each([undefined, '', 'Bananas', 'Size 0g'])('finds no size in %s', (text) => {
+    expect(parsePackSize(text)).toBeUndefined();
+  });
+});
+
+describe('computeUnitPrice', () => {
+  it('prices per base unit', () => {
+    expect(computeUnitPrice(4.99, parsePackSize('500g')!)).toEqual({ unitPrice: 9.98, unit: 'kg' });
+    expect(computeUnitPrice(7.5, parsePackSize('6x330ml')!)).toEqual({ unitPrice: 3.79, unit: 'L' });
+  });
+});
+
+describe('parseUnitPrice', () => {
+  it.each([
+    ['$2.15 / 1L', { unitPrice: 2.15, unit: 'L' }],
+    ['$1.43/100g', { unitPrice: 14.3, unit: 'kg' }],
+    ['$3.99 per kg', { unitPrice: 3.99, unit: 'kg' }],
+    ['$0.50 ea', { unitPrice: 0.5, unit: 'each' }],
+    ['$1,299.00 / kg', { unitPrice: 1299, unit: 'kg' }],
+    ['$2,50 / 1,5 l', { unitPrice: 1.67, unit: 'L' }],
+  ])('reads %s', (text, expected) => {
+    expect(parseUnitPrice(text)).toEqual(expected);
+  });
+
+  it('ignores text without a unit price', () => {
+    expect(parseUnitPrice('Special')).toBeUndefined();
+    expect(parseUnitPrice(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { isPromoTermLine, parsePromoEndDate, parsePromoTerms } from '../../../src/server/utils/promo';
+
+const today = new Date('2026-03-10T00:00:00Z');
+
+describe('parsePromoTerms', () => {
+  it('reads was, member and multi-buy prices and the end date', () => {
+    expect(parsePromoTerms('Was $4.50 Club Price $3.50 2 for $6 Ends 15/03', today)).toEqual({
+      regularPrice: 4.5,
+      memberPrice: 3.5,
+      multiBuy: { quantity: 2, price: 6 },
+      promoEndDate: '2026-03-15',
+    });
+  });
+
+  it.each([
+    ['Any 3 for $10.00', { quantity: 3, price: 10 }],
+    ['2for$5', { quantity: 2, price: 5 }],
+  ])('reads the multi-buy deal in "%s"', (text, multiBuy) => {
+    expect(parsePromoTerms(text, today)).toEqual({ multiBuy });
+  });
+
+  it('ignores a "1 for" price, which is not a multi-buy', () => {
+    expect(parsePromoTerms('1 for $2.50', today)).toEqual({});
+  });
+
+  it('returns no terms for plain or missing text', () => {
+    expect(parsePromoTerms('Anchor Blue Milk 2L $3.99', today)).toEqual({});
+    expect(parsePromoTerms(undefined, today)).toEqual({});
+  });
+});
+
+describe('parsePromoEndDate', () => {
+  it.each([
+    ['Ends 12/03/2027', '2027-03-12'],
+    ['Valid until 5.4.26', '2026-04-05'],
+    ['Offer ends Sunday, 5th April', '2026-04-05'],
+  ])('reads "%s"', (text, expected) => {
+    expect(parsePromoEndDate(text, today)).toBe(expected);
+  });
+
+  it('takes a date without a year that is long past to mean next year', () => {
+    expect(parsePromoEndDate('Ends 5/01', new Date('2026-12-20T00:00:00Z'))).toBe('2027-01-05');
+    expect(parsePromoEndDate('Ends 5/03', today)).toBe('2026-03-05');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parsePromoEndDate('Ends 31/02', today)).toBeUndefined();
+  });
+});
+
+describe('isPromoTermLine', () => {
+  it('tells promo terms from the current price', () => {
+    expect(isPromoTermLine('3 for $10')).toBe(true);
+    expect(isPromoTermLine('Was $4.50')).toBe(true);
+    expect(isPromoTermLine('$3.99')).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createWorkbook, listWorkbookSheets, readWorkbookSheet } from '../../../src/server/utils/xlsx';
+import { createZip, readZip } from '../../../src/server/utils/zip';
+
+/**
+ * Replace the first worksheet of a workbook with the given sheet data XML
+ */
+function withSheetData(workbook: Buffer, sheetData: string): Buffer {
+  const files = readZip(workbook);
+  files.set('xl/worksheets/sheet1.xml', Buffer.from(
+    `<?xml version="1.0" encoding="UTF-8"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetData}</sheetData></worksheet>`,
+    'utf8'
+  ));
+  return createZip(Array.from(files, ([name, data]) => ({ name, data })));
+}
+
+describe('readWorkbookSheet', () => {
+  const workbook = createWorkbook([
+    { name: 'Products', rows: [['ProductId', 'ProductName'], ['P1', 'Milk 2L'], ['P2', 42]] },
+    { name: 'Stores', rows: [['StoreName'], ['Woolworths Ponsonby']] },
+  ]);
+
+  it('reads back a workbook written by createWorkbook', () => {
+    expect(listWorkbookSheets(workbook)).toEqual(['Products', 'Stores']);
+    expect(readWorkbookSheet(workbook)).toEqual([
+      { row: 1, values: ['ProductId', 'ProductName'] },
+      { row: 2, values: ['P1', 'Milk 2L'] },
+      { row: 3, values: ['P2', '42'] },
+    ]);
+    expect(readWorkbookSheet(workbook, 'stores')[1].values).toEqual(['Woolworths Ponsonby']);
+  });
+
+  it('places cells by their reference', () => {
+    const sparse = withSheetData(workbook, '<row r="4"><c r="C4" t="inlineStr"><is><t>x</t></is></c></row>');
+    expect(readWorkbookSheet(sparse)).toEqual([{ row: 4, values: ['', '', 'x'] }]);
+  });
+
+  it('accepts the last column XFD', () => {
+    const wide = withSheetData(workbook, '<row r="1"><c r="XFD1"><v>1</v></c></row>');
+    expect(readWorkbookSheet(wide)[0].values).toHaveLength(16384);
+  });
+
+  it('rejects cell references beyond XFD', () => {
+    const invalid = withSheetData(workbook, '<row r="1"><c r="ZZZZZZZ1"><v>1</v></c></row>');
+    expect(() => readWorkbookSheet(invalid)).toThrow(/beyond column XFD/);
+  });
+});
@@ -0,0 +1,83 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { createZip, crc32, readZip } from '../../../src/server/utils/zip';
+
+/**
+ * Build a single-entry archive with a deflated entry, optionally declaring a false size
+ */
+function deflatedZip(name: string, data: Buffer, declaredSize = data.length): Buffer {
+  const nameBytes = Buffer.from(name, 'utf8');
+  const compressed = deflateRawSync(data);
+  const crc = crc32(data);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(crc, 14);
+  local.writeUInt32LE(compressed.length, 18);
+  local.writeUInt32LE(declaredSize, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(20, 4);
+  central.writeUInt16LE(20, 6);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(crc, 16);
+  central.writeUInt32LE(compressed.length, 20);
+  central.writeUInt32LE(declaredSize, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+
+  const centralOffset = local.length + nameBytes.length + compressed.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBytes.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+
+  return Buffer.concat([local, nameBytes, compressed, central, nameBytes, end]);
+}
+
+describe('readZip', () => {
+  it('reads stored entries written by createZip', () => {
+    const archive = createZip([
+      { name: 'a.txt', data: Buffer.from('hello') },
+      { name: 'b.txt', data: Buffer.from('world') },
+    ]);
+
+    const files = readZip(archive);
+    expect(files.get('a.txt')?.toString()).toBe('hello');
+    expect(files.get('b.txt')?.toString()).toBe('world');
+  });
+
+  it('reads only the named entries', () => {
+    const archive = createZip([
+      { name: 'a.txt', data: Buffer.from('hello') },
+      { name: 'b.txt', data: Buffer.from('world') },
+    ]);
+
+    expect(Array.from(readZip(archive, { names: ['b.txt'] }).keys())).toEqual(['b.txt']);
+  });
+
+  it('inflates deflated entries', () => {
+    const files = readZip(deflatedZip('data.xml', Buffer.from('<a>text</a>')));
+    expect(files.get('data.xml')?.toString()).toBe('<a>text</a>');
+  });
+
+  it('rejects entries larger than the limit before inflating them', () => {
+    const archive = deflatedZip('bomb.xml', Buffer.alloc(1024 * 1024));
+    expect(() => readZip(archive, { maxEntrySize: 1024 })).toThrow(/too large/);
+  });
+
+  it('does not inflate past the declared size', () => {
+    const archive = deflatedZip('bomb.xml', Buffer.alloc(1024 * 1024), 100);
+    expect(() => readZip(archive)).toThrow();
+  });
+
+  it('skips oversized entries that were not asked for', () => {
+    const archive = deflatedZip('other.xml', Buffer.alloc(1024 * 1024));
+    expect(readZip(archive, { names: ['wanted.xml'], maxEntrySize: 1024 }).size).toBe(0);
+  });
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Read by src/server/config at import: quiet logs, in-memory storage, no waits between tasks
+    env: {
+      NODE_ENV: 'test',
+      LOG_LEVEL: 'error',
+      STORAGE_BACKEND: 'memory',
+      DELAY_BETWEEN_STORES_MS: '0',
+      DELAY_BETWEEN_PRODUCTS_MS: '0',
+      MAX_RETRIES: '1',
+    },
+  },
+});